@@ -0,0 +1,2 @@
+-- Spatial index used by the routing engine to load the path graph by bounding box
+CREATE INDEX IF NOT EXISTS idx_paths_line_geom ON paths USING GIST (line_geom);
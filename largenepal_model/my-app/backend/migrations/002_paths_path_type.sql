@@ -0,0 +1,3 @@
+-- Kind of way a path segment is (sidewalk, footway, crossing, road, ...).
+-- Used by the "Prefer sidewalks" route preference.
+ALTER TABLE paths ADD COLUMN IF NOT EXISTS path_type VARCHAR(30);
@@ -0,0 +1,5 @@
+-- Shared 0–10 accessibility score for places and its per-component
+-- breakdown (entrance, surface, incline, kerb, toilet, reviews).
+-- Filled in by `npm run rescore` and whenever a place's inputs change.
+ALTER TABLE places ADD COLUMN IF NOT EXISTS accessibility_score DECIMAL(4, 2);
+ALTER TABLE places ADD COLUMN IF NOT EXISTS score_breakdown JSONB;
@@ -0,0 +1,4 @@
+-- Id the frontend assigns to a report before submitting it. Lets the
+-- offline outbox retry a submission without creating duplicates.
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS client_id VARCHAR(64);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_client_id ON reports (client_id);
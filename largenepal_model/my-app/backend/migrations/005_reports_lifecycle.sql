@@ -0,0 +1,11 @@
+-- Report lifecycle: open -> confirmed -> resolved | expired.
+-- is_active stays in sync (true while open or confirmed) for older queries.
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'open';
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS confirm_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS last_confirmed_at TIMESTAMP;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP;
+
+UPDATE reports SET status = 'expired'
+WHERE status = 'open' AND (is_active = false OR expires_at <= NOW());
+
+CREATE INDEX IF NOT EXISTS idx_reports_status_expires ON reports (status, expires_at);
@@ -0,0 +1,13 @@
+-- Community votes on reports and the confidence derived from them.
+-- voter_id is the anonymous id the frontend keeps per browser.
+CREATE TABLE IF NOT EXISTS report_votes (
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  voter_id VARCHAR(64) NOT NULL,
+  vote SMALLINT NOT NULL CHECK (vote IN (-1, 1)),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (report_id, voter_id)
+);
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS upvotes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS downvotes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS confidence DECIMAL(4, 3) NOT NULL DEFAULT 0.5;
@@ -0,0 +1,8 @@
+-- Optional photo per review, and per-place aggregates recomputed from
+-- reviews whenever one is added.
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS photo_url TEXT;
+CREATE INDEX IF NOT EXISTS idx_reviews_place_id ON reviews (place_id, created_at DESC);
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS entry_accessible BOOLEAN;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS space_maneuverable BOOLEAN;
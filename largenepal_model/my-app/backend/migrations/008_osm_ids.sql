@@ -0,0 +1,11 @@
+-- OSM identity of imported rows, so `npm run import:osm` can update them in
+-- place on re-import and skip rows whose OSM version has not changed.
+-- Rows entered by hand keep NULL ids.
+ALTER TABLE paths ADD COLUMN IF NOT EXISTS osm_id BIGINT;
+ALTER TABLE paths ADD COLUMN IF NOT EXISTS osm_version INTEGER;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paths_osm_id ON paths (osm_id);
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS osm_type VARCHAR(8);
+ALTER TABLE places ADD COLUMN IF NOT EXISTS osm_id BIGINT;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS osm_version INTEGER;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_places_osm_id ON places (osm_type, osm_id);
@@ -0,0 +1,18 @@
+-- Hazard points (stairs, construction, rough surfaces, narrow alleys) derived
+-- from OSM by `npm run import:osm` and served by GET /api/hazards?bbox=.
+-- `source` says where a row came from; only 'osm' rows are replaced on import.
+CREATE TABLE IF NOT EXISTS hazards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hazard_type VARCHAR(10) NOT NULL,
+  category VARCHAR(50) NOT NULL,
+  description TEXT,
+  location GEOMETRY(Point, 4326) NOT NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'osm',
+  osm_type VARCHAR(8),
+  osm_id BIGINT,
+  osm_version INTEGER,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hazards_location ON hazards USING GIST (location);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hazards_osm_id ON hazards (osm_type, osm_id);
@@ -0,0 +1,3 @@
+-- Street or path name, used in turn-by-turn instructions ("Turn left onto
+-- Durbar Marg"). Filled in by `npm run import:osm`.
+ALTER TABLE paths ADD COLUMN IF NOT EXISTS name VARCHAR(255);
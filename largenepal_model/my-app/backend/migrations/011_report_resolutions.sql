@@ -0,0 +1,8 @@
+-- People who marked a report as fixed. A report is resolved once enough
+-- distinct people have (more for reports with a higher confidence).
+CREATE TABLE IF NOT EXISTS report_resolutions (
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  voter_id VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (report_id, voter_id)
+);
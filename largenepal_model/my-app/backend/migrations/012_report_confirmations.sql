@@ -0,0 +1,8 @@
+-- People who confirmed a report is still there. reports.confirm_count is the
+-- number of rows here, so one person cannot confirm the same report twice.
+CREATE TABLE IF NOT EXISTS report_confirmations (
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  voter_id VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (report_id, voter_id)
+);
@@ -0,0 +1,33 @@
+// my-app/backend/scripts/importOsm.js
+// Imports footpaths, accessible places and hazards from an OSM extract:
+//   npm run import:osm -- data/kathmandu-valley.osm.pbf
+// Safe to run again on the same or a newer extract; rows that are no longer
+// in it are removed. Pass --force to rewrite rows whose OSM version has not
+// changed.
+
+import pool from '../src/config/db.js';
+import { importOsm } from '../src/services/osmImportService.js';
+
+const args = process.argv.slice(2);
+const force = args.includes('--force');
+const file = args.find((arg) => !arg.startsWith('--'));
+
+if (!file) {
+  console.error('Usage: npm run import:osm -- [--force] <extract.osm | extract.osm.gz | extract.osm.pbf>');
+  process.exit(1);
+}
+
+const describe = ({ inserted, updated, unchanged, removed }) =>
+  `${inserted} new, ${updated} updated, ${unchanged} unchanged, ${removed} removed`;
+
+try {
+  const { paths, places, hazards } = await importOsm(file, { force });
+  console.log(`Paths: ${describe(paths)}`);
+  console.log(`Places: ${describe(places)}`);
+  console.log(`Hazards: ${describe(hazards)}`);
+} catch (err) {
+  console.error('OSM import error:', err);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
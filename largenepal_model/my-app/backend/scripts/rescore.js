@@ -0,0 +1,15 @@
+// my-app/backend/scripts/rescore.js
+// Recomputes the accessibility score of every place: `npm run rescore`
+
+import pool from '../src/config/db.js';
+import { rescorePlaces } from '../src/services/scoringService.js';
+
+try {
+  const count = await rescorePlaces();
+  console.log(`Rescored ${count} places`);
+} catch (err) {
+  console.error('Rescore error:', err);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
@@ -4,6 +4,7 @@ dotenv.config();
 
 import app from "./app.js";
 import pool from "./src/config/db.js";
+import { startReportSweep } from "./src/services/reportLifecycle.js";
 
 const PORT = process.env.PORT || 5000;
 
@@ -12,6 +13,7 @@ app.listen(PORT, async () => {
     await pool.query("SELECT NOW()");
     console.log(`✅ Server running on port ${PORT}`);
     console.log("✅ PostgreSQL connected");
+    startReportSweep();
   } catch (err) {
     console.error("❌ DB connection failed", err);
   }
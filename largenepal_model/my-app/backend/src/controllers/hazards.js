@@ -0,0 +1,21 @@
+import { parseBbox } from '../utils/bbox.js';
+import { loadHazardsInBounds } from '../services/hazardService.js';
+
+const MAX_HAZARDS = 1000;
+
+// Imported hazard points inside ?bbox=minLng,minLat,maxLng,maxLat
+export const getHazards = async (req, res) => {
+  const bbox = parseBbox(req.query.bbox);
+
+  if (!bbox) {
+    return res.status(400).json({ error: 'Missing or invalid bbox' });
+  }
+
+  try {
+    const hazards = await loadHazardsInBounds(bbox, MAX_HAZARDS);
+    res.json({ hazards });
+  } catch (err) {
+    console.error('Hazards error:', err);
+    res.status(500).json({ error: 'Failed to fetch hazards' });
+  }
+};
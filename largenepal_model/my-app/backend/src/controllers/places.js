@@ -3,17 +3,24 @@
 // In src/controllers/places.js
 
 import pool from '../config/db.js';
+import { addRouteDetours } from '../services/nearbyService.js';
+import { parseBbox } from '../utils/bbox.js';
+import { parseLine } from '../utils/line.js';
+import { isUuid } from '../utils/uuid.js';
+
+const PLACE_COLUMNS = `
+  id, name, category,
+  wheelchair_accessible, has_ramp, has_accessible_toilet,
+  avg_score, review_count, entry_accessible, space_maneuverable,
+  accessibility_score, score_breakdown,
+  ST_X(geom) AS lng, ST_Y(geom) AS lat`;
 
 export const getPlaces = async (req, res) => {
-  const { category, wheelchair_accessible, lat, lng, radius = 5000 } = req.query;
+  const { category, wheelchair_accessible, lat, lng, radius = 5000, bbox } = req.query;
 
   try {
     let query = `
-      SELECT 
-        id, name, category, 
-        wheelchair_accessible, has_ramp, has_accessible_toilet,
-        avg_score,
-        ST_X(geom) AS lng, ST_Y(geom) AS lat
+      SELECT ${PLACE_COLUMNS}
       FROM places
       WHERE 1=1
     `;
@@ -41,7 +48,14 @@ export const getPlaces = async (req, res) => {
       query += ` AND ST_DWithin(geom, ST_SetSRID(ST_MakePoint($${params.length-2}, $${params.length-1}), 4326)::geography, $${params.length})`;
     }
 
-    query += ` ORDER BY avg_score DESC NULLS LAST, name LIMIT 50`;
+    // Optional viewport filter: bbox=minLng,minLat,maxLng,maxLat
+    const bounds = parseBbox(bbox);
+    if (bounds) {
+      params.push(bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat);
+      query += ` AND geom && ST_MakeEnvelope($${params.length-3}, $${params.length-2}, $${params.length-1}, $${params.length}, 4326)`;
+    }
+
+    query += ` ORDER BY accessibility_score DESC NULLS LAST, avg_score DESC NULLS LAST, name LIMIT 50`;
 
     const result = await pool.query(query, params);
     res.json(result.rows);
@@ -51,6 +65,108 @@ export const getPlaces = async (req, res) => {
   }
 };
 
+const DEFAULT_CORRIDOR_M = 200;
+const MAX_CORRIDOR_M = 1000;
+const MAX_ALONG_ROUTE = 50;
+const MAX_ALONG_ROUTE_CANDIDATES = 500;
+
+// Places with no accessible way from the route come last
+const byDetour = (a, b) =>
+  (a.detour_m ?? Infinity) - (b.detour_m ?? Infinity) ||
+  (Number(b.accessibility_score) || -1) - (Number(a.accessibility_score) || -1) ||
+  String(a.name).localeCompare(String(b.name));
+
+// Places within `buffer` metres of a route, cheapest detour first. The detour
+// is the walk or roll from the route to the place and back along the paths
+// the profile can use.
+// Query: line=lng,lat;lng,lat;... buffer? toilet=true? ramp=true?
+//        category=pharmacy,bench? limit? profile?
+// The filters that are given are alternatives: toilet=true&category=pharmacy
+// finds places with an accessible toilet and pharmacies.
+export const getPlacesAlongRoute = async (req, res) => {
+  const { buffer, toilet, ramp, category, limit, profile } = req.query;
+  const line = parseLine(req.query.line);
+
+  if (!line) {
+    return res.status(400).json({ error: 'Missing or invalid line' });
+  }
+
+  const bufferM = Math.min(Math.max(Number(buffer) || DEFAULT_CORRIDOR_M, 10), MAX_CORRIDOR_M);
+  const maxRows = Math.min(Math.max(Math.floor(Number(limit)) || 20, 1), MAX_ALONG_ROUTE);
+
+  // Box around the line, so the places index narrows the search first
+  const lngs = line.map(([lng]) => lng);
+  const lats = line.map(([, lat]) => lat);
+  const dLat = bufferM / 111320;
+  const dLng = dLat / Math.cos((((Math.min(...lats) + Math.max(...lats)) / 2) * Math.PI) / 180);
+
+  const params = [
+    JSON.stringify({ type: 'LineString', coordinates: line }),
+    bufferM,
+    Math.min(...lngs) - dLng, Math.min(...lats) - dLat, Math.max(...lngs) + dLng, Math.max(...lats) + dLat,
+    MAX_ALONG_ROUTE_CANDIDATES,
+  ];
+  const wanted = [];
+  if (toilet === 'true') wanted.push('has_accessible_toilet = TRUE');
+  if (ramp === 'true') wanted.push('has_ramp = TRUE');
+  const categories = typeof category === 'string' ? category.split(',').map((c) => c.trim()).filter(Boolean) : [];
+  if (categories.length > 0) {
+    params.push(categories);
+    wanted.push(`category = ANY($${params.length})`);
+  }
+
+  try {
+    const result = await pool.query(
+      `WITH route AS (SELECT ST_SetSRID(ST_GeomFromGeoJSON($1), 4326) AS line)
+       SELECT ${PLACE_COLUMNS},
+              ROUND(ST_LineLocatePoint(route.line, geom) * ST_Length(route.line::geography)) AS distance_along
+       FROM places, route
+       WHERE geom && ST_MakeEnvelope($3, $4, $5, $6, 4326)
+         AND ST_DWithin(geom::geography, route.line::geography, $2)
+         ${wanted.length > 0 ? `AND (${wanted.join(' OR ')})` : ''}
+       ORDER BY ST_Distance(geom::geography, route.line::geography)
+       LIMIT $7`,
+      params
+    );
+
+    const places = await addRouteDetours(line, result.rows, bufferM, { profileId: profile });
+    res.json(places.sort(byDetour).slice(0, maxRows));
+  } catch (err) {
+    console.error('Places along route error:', err);
+    res.status(500).json({ error: 'Failed to fetch places along route' });
+  }
+};
+
+export const getPlaceById = async (req, res) => {
+  const { id } = req.params;
+
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Place not found' });
+  }
+
+  try {
+    const result = await pool.query(`SELECT ${PLACE_COLUMNS} FROM places WHERE id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Place not found' });
+    }
+
+    // Photos come from the place's reviews
+    const photos = await pool.query(
+      `SELECT photo_url FROM reviews
+       WHERE place_id = $1 AND photo_url IS NOT NULL
+       ORDER BY created_at DESC
+       LIMIT 12`,
+      [id]
+    );
+
+    res.json({ ...result.rows[0], photos: photos.rows.map((r) => r.photo_url) });
+  } catch (err) {
+    console.error('Place error:', err);
+    res.status(500).json({ error: 'Failed to fetch place' });
+  }
+};
+
 export const reverseGeocode = async (req, res) => {
   const { lat, lon, zoom = 16 } = req.query;
 
@@ -1,32 +1,164 @@
-
-
 import pool from '../config/db.js';
 import { photoService } from '../services/photoService.js';
+import { parseBbox } from '../utils/bbox.js';
+import { isUuid } from '../utils/uuid.js';
+import {
+  LIVE_REPORT_CONDITION,
+  REPORT_COLUMNS,
+  confirmReport as confirmLiveReport,
+  lifetimeHours,
+  findReport,
+  isIssueType,
+  resolveReport as resolveLiveReport,
+} from '../services/reportLifecycle.js';
+import { castVote, refreshConfidence } from '../services/reportTrust.js';
+
+const MAX_REPORTS = 500;
 
 export const createReport = async (req, res) => {
-  const { user_id, issue_type, description, lat, lng } = req.body;
+  const { user_id, client_id, issue_type, description, lat, lng } = req.body;
   const photo = req.file;
 
   if (!issue_type || !description || !lat || !lng) {
     return res.status(400).json({ error: 'Missing required fields' });
   }
+  if (!isIssueType(issue_type)) {
+    return res.status(400).json({ error: 'Invalid issue_type' });
+  }
 
   try {
     const photo_url = photo ? photoService.getUrl(photo.filename) : null;
 
+    // A retried submission (same client_id) returns the report stored the
+    // first time instead of creating a duplicate.
     const result = await pool.query(
       `INSERT INTO reports (
-        user_id, issue_type, description, photo_url, 
-        location, is_active, created_at, expires_at
-      ) VALUES ($1, $2, $3, $4, ST_SetSRID(ST_MakePoint($5, $6), 4326), true, NOW(), NOW() + INTERVAL '48 hours')
-      RETURNING id, issue_type, description, photo_url, 
-                ST_X(location) AS lng, ST_Y(location) AS lat, created_at`,
-      [user_id || null, issue_type, description, photo_url, lng, lat]
+        user_id, client_id, issue_type, description, photo_url,
+        location, is_active, status, created_at, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, ST_SetSRID(ST_MakePoint($6, $7), 4326), true, 'open', NOW(), NOW() + make_interval(hours => $8))
+      ON CONFLICT (client_id) DO UPDATE SET client_id = EXCLUDED.client_id
+      RETURNING ${REPORT_COLUMNS}`,
+      [user_id || null, client_id || null, issue_type, description, photo_url, lng, lat, lifetimeHours(issue_type)]
     );
 
-    res.status(201).json({ report: result.rows[0] });
+    // Confidence starts from the reporter's reputation
+    await refreshConfidence(result.rows[0].id);
+
+    res.status(201).json({ report: await findReport(result.rows[0].id) });
   } catch (err) {
     console.error('Report creation error:', err);
     res.status(500).json({ error: 'Failed to create report' });
   }
-};
\ No newline at end of file
+};
+
+// Active, unexpired reports inside ?bbox=minLng,minLat,maxLng,maxLat
+export const getReports = async (req, res) => {
+  const bbox = parseBbox(req.query.bbox);
+
+  if (!bbox) {
+    return res.status(400).json({ error: 'Missing or invalid bbox' });
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT ${REPORT_COLUMNS}
+       FROM reports
+       WHERE ${LIVE_REPORT_CONDITION}
+         AND location && ST_MakeEnvelope($1, $2, $3, $4, 4326)
+       ORDER BY created_at DESC
+       LIMIT $5`,
+      [bbox.minLng, bbox.minLat, bbox.maxLng, bbox.maxLat, MAX_REPORTS]
+    );
+
+    res.json({ reports: result.rows });
+  } catch (err) {
+    console.error('Reports error:', err);
+    res.status(500).json({ error: 'Failed to fetch reports' });
+  }
+};
+
+// Another user saw the issue too: keeps the report alive for longer.
+// Body: { voter_id }
+export const confirmReport = async (req, res) => {
+  const { voter_id } = req.body;
+
+  if (!isUuid(req.params.id)) {
+    return res.status(404).json({ error: 'Report not found or no longer active' });
+  }
+  if (!voter_id) {
+    return res.status(400).json({ error: 'Missing voter_id' });
+  }
+
+  try {
+    const outcome = await confirmLiveReport(req.params.id, String(voter_id));
+
+    if (outcome === 'not_found') {
+      return res.status(404).json({ error: 'Report not found or no longer active' });
+    }
+    if (outcome === 'own_report') {
+      return res.status(403).json({ error: 'Cannot confirm your own report' });
+    }
+
+    await refreshConfidence(req.params.id);
+    res.json({ report: await findReport(req.params.id) });
+  } catch (err) {
+    console.error('Report confirm error:', err);
+    res.status(500).json({ error: 'Failed to confirm report' });
+  }
+};
+
+// Body: { voter_id }. The report stays live until enough people mark it fixed.
+export const resolveReport = async (req, res) => {
+  const { voter_id } = req.body;
+
+  if (!isUuid(req.params.id)) {
+    return res.status(404).json({ error: 'Report not found or no longer active' });
+  }
+  if (!voter_id) {
+    return res.status(400).json({ error: 'Missing voter_id' });
+  }
+
+  try {
+    const report = await resolveLiveReport(req.params.id, String(voter_id));
+
+    if (!report) {
+      return res.status(404).json({ error: 'Report not found or no longer active' });
+    }
+
+    res.json({ report });
+  } catch (err) {
+    console.error('Report resolve error:', err);
+    res.status(500).json({ error: 'Failed to resolve report' });
+  }
+};
+
+// Body: { voter_id, vote: 1 | -1 | 0 }  (0 withdraws an earlier vote)
+export const voteReport = async (req, res) => {
+  const { voter_id, vote } = req.body;
+
+  if (!isUuid(req.params.id)) {
+    return res.status(404).json({ error: 'Report not found or no longer active' });
+  }
+  if (!voter_id) {
+    return res.status(400).json({ error: 'Missing voter_id' });
+  }
+  if (![1, -1, 0].includes(vote)) {
+    return res.status(400).json({ error: 'Invalid vote' });
+  }
+
+  try {
+    const outcome = await castVote(req.params.id, String(voter_id), vote);
+
+    if (outcome === 'not_found') {
+      return res.status(404).json({ error: 'Report not found or no longer active' });
+    }
+    if (outcome === 'own_report') {
+      return res.status(403).json({ error: 'Cannot vote on your own report' });
+    }
+
+    res.json({ report: await findReport(req.params.id) });
+  } catch (err) {
+    console.error('Report vote error:', err);
+    res.status(500).json({ error: 'Failed to record vote' });
+  }
+};
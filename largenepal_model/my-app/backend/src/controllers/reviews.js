@@ -0,0 +1,115 @@
+import pool from '../config/db.js';
+import { photoService } from '../services/photoService.js';
+import { recomputePlaceAggregates } from '../services/reviewService.js';
+import { isUuid } from '../utils/uuid.js';
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_PAGE_SIZE = 50;
+
+// Multipart forms send booleans as strings; '' / missing means "not answered"
+const parseOptionalBoolean = (value) => {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  if (value === undefined || value === null || value === '') return null;
+  return undefined;
+};
+
+const placeExists = async (id) => {
+  const result = await pool.query('SELECT 1 FROM places WHERE id = $1', [id]);
+  return result.rows.length > 0;
+};
+
+export const getPlaceReviews = async (req, res) => {
+  const { id } = req.params;
+  const limit = Math.max(1, Math.min(Math.floor(Number(req.query.limit)) || 20, MAX_PAGE_SIZE));
+  const offset = Math.max(Math.floor(Number(req.query.offset)) || 0, 0);
+
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Place not found' });
+  }
+
+  try {
+    if (!(await placeExists(id))) {
+      return res.status(404).json({ error: 'Place not found' });
+    }
+
+    const [result, count] = await Promise.all([
+      pool.query(
+        `SELECT id, rating, comment, entry_accessible, space_maneuverable, photo_url, created_at
+         FROM reviews
+         WHERE place_id = $1
+         ORDER BY created_at DESC
+         LIMIT $2 OFFSET $3`,
+        [id, limit, offset]
+      ),
+      pool.query('SELECT COUNT(*)::int AS total FROM reviews WHERE place_id = $1', [id]),
+    ]);
+
+    res.json({
+      reviews: result.rows,
+      total: count.rows[0].total,
+      limit,
+      offset,
+    });
+  } catch (err) {
+    console.error('Reviews error:', err);
+    res.status(500).json({ error: 'Failed to fetch reviews' });
+  }
+};
+
+export const createPlaceReview = async (req, res) => {
+  const { id } = req.params;
+  const rating = Number(req.body.rating);
+  const comment = typeof req.body.comment === 'string' ? req.body.comment.trim() : '';
+  const entryAccessible = parseOptionalBoolean(req.body.entry_accessible);
+  const spaceManeuverable = parseOptionalBoolean(req.body.space_maneuverable);
+
+  // The photo is already on disk by now; drop it with the rejected review
+  const reject = async (status, error) => {
+    await photoService.discard(req.file);
+    return res.status(status).json({ error });
+  };
+
+  if (!isUuid(id)) {
+    return reject(404, 'Place not found');
+  }
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return reject(400, 'Rating must be a whole number from 1 to 5');
+  }
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    return reject(400, `Comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  if (entryAccessible === undefined || spaceManeuverable === undefined) {
+    return reject(400, 'entry_accessible and space_maneuverable must be true or false');
+  }
+
+  let client;
+  try {
+    if (!(await placeExists(id))) {
+      return reject(404, 'Place not found');
+    }
+
+    // The review and the aggregates it changes are saved together or not at all
+    client = await pool.connect();
+    await client.query('BEGIN');
+    const photo_url = req.file ? photoService.getUrl(req.file.filename) : null;
+    const result = await client.query(
+      `INSERT INTO reviews (place_id, rating, comment, entry_accessible, space_maneuverable, photo_url, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW())
+       RETURNING id, rating, comment, entry_accessible, space_maneuverable, photo_url, created_at`,
+      [id, rating, comment || null, entryAccessible, spaceManeuverable, photo_url]
+    );
+
+    await recomputePlaceAggregates(id, client);
+    await client.query('COMMIT');
+
+    res.status(201).json({ review: result.rows[0] });
+  } catch (err) {
+    console.error('Review creation error:', err);
+    await client?.query('ROLLBACK').catch(() => {});
+    await photoService.discard(req.file);
+    res.status(500).json({ error: 'Failed to create review' });
+  } finally {
+    client?.release();
+  }
+};
@@ -1,37 +1,102 @@
 
 
-import pool from '../config/db.js';
+import { findRoute } from '../services/routingService.js';
+import { classifyRouteSegments } from '../services/classificationService.js';
+import { profileRoute } from '../services/elevationService.js';
+import { reachableAreas } from '../services/isochroneService.js';
+import { parseChairSettings } from '../../../shared/effort.js';
+import { getMobilityProfile } from '../../../shared/mobilityProfiles.js';
 
 export const findAccessiblePaths = async (req, res) => {
-  const { from, to } = req.body;
+  const { from, to, preferences, profile, hazards, chair } = req.body;
 
   if (!from?.lng || !from?.lat || !to?.lng || !to?.lat) {
     return res.status(400).json({ error: 'Missing coordinates' });
   }
 
   try {
-    const query = `
-      SELECT 
-        id,
-        ST_AsGeoJSON(line_geom)::json AS geometry,
-        surface_type, incline_percent, width_cm, has_curb_cuts, is_lit_at_night,
-        CASE 
-          WHEN width_cm >= 120 AND incline_percent <= 5 THEN 10
-          WHEN width_cm >= 90 AND incline_percent <= 8 THEN 7
-          ELSE 4
-        END AS accessibility_score
-      FROM paths
-      WHERE ST_DWithin(line_geom, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, 80)
-         OR ST_DWithin(line_geom, ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography, 80)
-      ORDER BY accessibility_score DESC, ST_Length(line_geom) ASC
-      LIMIT 15
-    `;
-
-    const result = await pool.query(query, [from.lng, from.lat, to.lng, to.lat]);
-
-    res.json(result.rows);
+    const route = await findRoute(
+      { lat: Number(from.lat), lng: Number(from.lng) },
+      { lat: Number(to.lat), lng: Number(to.lng) },
+      {
+        profileId: profile,
+        preferences,
+        // Hazard points the client knows about (e.g. from Overpass)
+        hazards: Array.isArray(hazards)
+          ? hazards.filter((h) => Number.isFinite(h?.lat) && Number.isFinite(h?.lng) && typeof h.category === 'string')
+          : [],
+        chair: parseChairSettings(chair),
+      }
+    );
+
+    if (!route) {
+      return res.status(404).json({ error: 'No accessible route found' });
+    }
+
+    res.json(route);
   } catch (err) {
     console.error('Route error:', err);
     res.status(500).json({ error: 'Failed to find routes' });
   }
-};
\ No newline at end of file
+};
+
+// Rates segments of a route produced elsewhere (ORS, OSRM) against `paths`,
+// active reports and the elevation model, and returns the route's elevation
+// profile (null without DEM coverage).
+// Body: { segments: [{ coordinates: [lat, lng][], tags? }], profile }
+export const classifyRoute = async (req, res) => {
+  const { segments, profile } = req.body;
+
+  if (!Array.isArray(segments) || segments.some((s) => !Array.isArray(s?.coordinates) || s.coordinates.length === 0)) {
+    return res.status(400).json({ error: 'Missing segments' });
+  }
+
+  try {
+    const elevation = await profileRoute(segments);
+    const classified = await classifyRouteSegments(segments, getMobilityProfile(profile), elevation?.grades);
+    res.json({ segments: classified, elevationProfile: elevation?.profile ?? null });
+  } catch (err) {
+    console.error('Classify error:', err);
+    res.status(500).json({ error: 'Failed to classify route' });
+  }
+};
+
+const MAX_ISOCHRONE_MINUTES = 60;
+
+// Areas reachable from a point within each time (or effort) budget.
+// Body: { from, profile, preferences?, minutes?: [5, 10, 15], budget?: 'time' | 'effort', maxIncline?,
+//         chair?: 'manual' | 'powered' }
+export const getIsochrones = async (req, res) => {
+  const { from, profile, preferences, budget, maxIncline, chair } = req.body;
+  const minutes = Array.isArray(req.body.minutes) ? req.body.minutes.map(Number) : [5, 10, 15];
+
+  if (!from?.lng || !from?.lat) {
+    return res.status(400).json({ error: 'Missing coordinates' });
+  }
+  if (minutes.length === 0 || minutes.length > 5 || minutes.some((m) => !(m > 0 && m <= MAX_ISOCHRONE_MINUTES))) {
+    return res.status(400).json({ error: `Minutes must be 1 to 5 budgets of at most ${MAX_ISOCHRONE_MINUTES}` });
+  }
+
+  try {
+    const isochrones = await reachableAreas(
+      { lat: Number(from.lat), lng: Number(from.lng) },
+      {
+        minutes,
+        budget: budget === 'effort' ? 'effort' : 'time',
+        profileId: profile,
+        preferences,
+        maxInclinePercent: maxIncline == null ? undefined : Number(maxIncline),
+        chairType: chair === 'powered' ? 'powered' : 'manual',
+      }
+    );
+
+    if (!isochrones) {
+      return res.status(404).json({ error: 'Start point is not near any mapped path' });
+    }
+
+    res.json({ isochrones });
+  } catch (err) {
+    console.error('Isochrone error:', err);
+    res.status(500).json({ error: 'Failed to compute reachable area' });
+  }
+};
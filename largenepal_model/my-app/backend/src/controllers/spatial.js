@@ -1,25 +1,41 @@
 // my-app/backend/src/controllers/spatial.js
 
+import { findNearbyServices } from '../services/nearbyService.js';
 
-import pool from '../config/db.js'; 
+const DEFAULT_RADIUS_M = 1000;
+const MAX_RADIUS_M = 5000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
 
-// Service Discovery: Find accessible places by category
+// Service discovery: accessible places near a point, nearest along the path
+// network first (or best rated first with sort=accessibility).
+// Query: lat, lng, radius?, category=hospital,bank?, sort?, profile?,
+//        limit?, offset?
+// Distances are metres; network_distance_m and travel_time_s are null for
+// places the profile cannot reach within the radius.
 export const getAccessibleServices = async (req, res) => {
-    const { category, lat, lon } = req.query;
-    try {
-        const query = `
-            SELECT id, name, category, wheelchair_accessible, avg_score,
-                   ST_AsGeoJSON(geom)::json as location,
-                   ST_Distance(geom, ST_SetSRID(ST_Point($1, $2), 4326)) as dist
-            FROM places
-            WHERE category = $3 
-            AND (wheelchair_accessible = 'yes' OR has_ramp = true)
-            ORDER BY avg_score DESC, dist ASC;
-        `;
-        const result = await pool.query(query, [lon, lat, category]);
-        res.json(result.rows);
-    } catch (err) {
-        res.status(500).json({ error: "Failed to fetch services" });
-    }
-};
+  const { category, radius, sort, profile, limit, offset } = req.query;
+  const lat = Number(req.query.lat);
+  const lng = Number(req.query.lng);
+
+  if (!req.query.lat || !req.query.lng || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return res.status(400).json({ error: 'Missing coordinates' });
+  }
 
+  const query = {
+    radius: Math.min(Math.max(Number(radius) || DEFAULT_RADIUS_M, 100), MAX_RADIUS_M),
+    categories: typeof category === 'string' ? category.split(',').map((c) => c.trim()).filter(Boolean) : [],
+    sort: sort === 'accessibility' ? 'accessibility' : 'distance',
+    limit: Math.min(Math.max(Math.floor(Number(limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+    offset: Math.max(Math.floor(Number(offset)) || 0, 0),
+    profileId: profile,
+  };
+
+  try {
+    const result = await findNearbyServices({ lat, lng }, query);
+    res.json({ ...result, limit: query.limit, offset: query.offset });
+  } catch (err) {
+    console.error('Nearby services error:', err);
+    res.status(500).json({ error: 'Failed to fetch services' });
+  }
+};
@@ -3,6 +3,7 @@
 
 // Import required modules
 import multer from 'multer';              // Middleware for handling multipart/form-data (file uploads)
+import fs from 'fs';                      // Node.js module for creating the upload folder
 import path from 'path';                  // Node.js module for handling file paths
 import { fileURLToPath } from 'url';      // Utility to convert ES module URL to file path
 
@@ -10,11 +11,15 @@ import { fileURLToPath } from 'url';      // Utility to convert ES module URL to
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Folder where uploaded files are stored (git-ignored, so create it on startup)
+const uploadDir = path.join(__dirname, '../../uploads');
+fs.mkdirSync(uploadDir, { recursive: true });
+
 // Configure storage settings for uploaded files
 const storage = multer.diskStorage({
   // Define the folder where uploaded files will be stored
   destination: (req, file, cb) => {
-    cb(null, path.join(__dirname, '../../uploads'));
+    cb(null, uploadDir);
   },
 
   // Define how the uploaded file should be named
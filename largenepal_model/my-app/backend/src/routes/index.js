@@ -3,21 +3,40 @@
 import express from 'express';
 import upload from '../middleware/upload.js';
 
-import { getPlaces } from '../controllers/places.js';
+import { getPlaces, getPlaceById, getPlacesAlongRoute } from '../controllers/places.js';
 import { reverseGeocode} from '../controllers/places.js';
-import { createReport } from '../controllers/reports.js';
-import { findAccessiblePaths } from '../controllers/routes.js';
+import { createReport, getReports, confirmReport, resolveReport, voteReport } from '../controllers/reports.js';
+import { findAccessiblePaths, classifyRoute, getIsochrones } from '../controllers/routes.js';
+import { getPlaceReviews, createPlaceReview } from '../controllers/reviews.js';
+import { getHazards } from '../controllers/hazards.js';
+import { getAccessibleServices } from '../controllers/spatial.js';
 
 const router = express.Router();
 
 // Places (services)
 router.get('/places', getPlaces);
+router.get('/places/along-route', getPlacesAlongRoute);
+router.get('/places/:id', getPlaceById);
+router.get('/places/:id/reviews', getPlaceReviews);
+router.post('/places/:id/reviews', upload.single('photo'), createPlaceReview);
+
+// Accessible services near a point
+router.get('/services/nearby', getAccessibleServices);
 
 // Reports (alerts/obstacles)
+router.get('/reports', getReports);
 router.post('/reports', upload.single('photo'), createReport);
+router.post('/reports/:id/confirm', confirmReport);
+router.post('/reports/:id/resolve', resolveReport);
+router.post('/reports/:id/vote', voteReport);
+
+// Hazards (imported from OSM)
+router.get('/hazards', getHazards);
 
 // Routes
 router.post('/routes', findAccessiblePaths);
+router.post('/routes/classify', classifyRoute);
+router.post('/routes/isochrone', getIsochrones);
 
 router.get('/geocode/reverse', reverseGeocode);
 
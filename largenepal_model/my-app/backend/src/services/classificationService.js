@@ -0,0 +1,168 @@
+// my-app/backend/src/services/classificationService.js
+
+import pool from '../config/db.js';
+import { distanceToPolyline } from '../../../shared/geo.js';
+import { classifySegment, describeReasons } from '../../../shared/segmentClassifier.js';
+import { LIVE_REPORT_CONDITION } from './reportLifecycle.js';
+
+// Gathers evidence (matched `paths` rows, active reports) for route segments
+// and rates them with the shared segment classifier.
+
+const PATH_MATCH_DISTANCE_M = 15;    // max distance from a segment to its matched path
+const REPORT_BUFFER_M = 20;          // reports closer than this affect a segment
+
+const midpoint = (coordinates) => coordinates[Math.floor((coordinates.length - 1) / 2)];
+
+/**
+ * Finds the nearest `paths` row to the middle of each segment.
+ * Resolves to an array aligned with `segments` (null where nothing matched).
+ */
+export const matchPaths = async (segments) => {
+  if (segments.length === 0) return [];
+
+  const lats = segments.map((s) => midpoint(s.coordinates)[0]);
+  const lngs = segments.map((s) => midpoint(s.coordinates)[1]);
+
+  const result = await pool.query(
+    `SELECT s.idx, p.id, p.surface_type, p.incline_percent, p.width_cm, p.has_curb_cuts, p.path_type
+     FROM unnest($1::float8[], $2::float8[]) WITH ORDINALITY AS s(lng, lat, idx)
+     LEFT JOIN LATERAL (
+       SELECT id, surface_type, incline_percent, width_cm, has_curb_cuts, path_type
+       FROM paths
+       WHERE ST_DWithin(line_geom::geography, ST_SetSRID(ST_MakePoint(s.lng, s.lat), 4326)::geography, $3)
+       ORDER BY line_geom <-> ST_SetSRID(ST_MakePoint(s.lng, s.lat), 4326)
+       LIMIT 1
+     ) p ON true
+     ORDER BY s.idx`,
+    [lngs, lats, PATH_MATCH_DISTANCE_M]
+  );
+
+  return result.rows.map((row) =>
+    row.id
+      ? {
+          id: row.id,
+          surface: row.surface_type,
+          incline: row.incline_percent,
+          widthCm: row.width_cm,
+          hasCurbCuts: row.has_curb_cuts,
+          pathType: row.path_type,
+        }
+      : null
+  );
+};
+
+/**
+ * Active, unexpired reports within `bufferM` of a GeoJSON LineString.
+ */
+export const loadActiveReportsNear = async (geometry, bufferM = REPORT_BUFFER_M) => {
+  const result = await pool.query(
+    `SELECT id, issue_type, description, confidence, ST_X(location) AS lng, ST_Y(location) AS lat
+     FROM reports
+     WHERE ${LIVE_REPORT_CONDITION}
+       AND ST_DWithin(location::geography, ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)::geography, $2)`,
+    [JSON.stringify(geometry), bufferM]
+  );
+  return result.rows;
+};
+
+/**
+ * Active, unexpired reports inside a { minLng, minLat, maxLng, maxLat } box.
+ */
+export const loadActiveReportsInBounds = async (bounds) => {
+  const result = await pool.query(
+    `SELECT id, issue_type, description, confidence, ST_X(location) AS lng, ST_Y(location) AS lat
+     FROM reports
+     WHERE ${LIVE_REPORT_CONDITION}
+       AND location && ST_MakeEnvelope($1, $2, $3, $4, 4326)`,
+    [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat]
+  );
+  return result.rows;
+};
+
+/**
+ * Assigns each report to the closest segment within the buffer.
+ * Returns an array of report lists aligned with `segments`.
+ */
+export const assignToSegments = (segments, points, bufferM = REPORT_BUFFER_M) => {
+  const assigned = segments.map(() => []);
+  for (const point of points) {
+    let bestIdx = -1;
+    let bestDist = bufferM;
+    segments.forEach((s, i) => {
+      const d = distanceToPolyline(point, s.coordinates);
+      if (d <= bestDist) {
+        bestIdx = i;
+        bestDist = d;
+      }
+    });
+    if (bestIdx >= 0) assigned[bestIdx].push(point);
+  }
+  return assigned;
+};
+
+const toLineString = (segments) => ({
+  type: 'LineString',
+  coordinates: segments.flatMap((s) => s.coordinates.map(([lat, lng]) => [lng, lat])),
+});
+
+/**
+ * Re-rates a segment from its evidence and copies the result onto it.
+ */
+export const applyClassification = (segment, evidence, profile) => {
+  const result = classifySegment(evidence, profile);
+  return {
+    ...segment,
+    evidence,
+    accessibility: result.accessibility,
+    reasons: result.reasons,
+    surface: result.surface ?? segment.surface,
+    incline: result.incline ?? segment.incline,
+    width: result.width ?? segment.width,
+    hasCurbCuts: result.hasCurbCuts ?? segment.hasCurbCuts,
+    accessibilityScore: result.score.score,
+    scoreBreakdown: result.score.components,
+    description: describeReasons(result.reasons),
+  };
+};
+
+/**
+ * Adds active reports to segments that already carry path evidence (routes
+ * from our own graph) and re-rates them.
+ */
+export const addReportEvidence = async (segments, profile) => {
+  if (segments.length === 0) return segments;
+
+  const reports = await loadActiveReportsNear(toLineString(segments));
+  const bySegment = assignToSegments(segments, reports);
+
+  return segments.map((segment, i) =>
+    applyClassification(
+      segment,
+      {
+        ...segment.evidence,
+        reports: bySegment[i].map((r) => ({
+          id: r.id,
+          type: r.issue_type,
+          description: r.description,
+          confidence: Number(r.confidence),
+        })),
+      },
+      profile
+    )
+  );
+};
+
+/**
+ * Full classification for segments produced by an external router: matches
+ * each one to `paths`, adds nearby reports, and rates it. OSM tags sent by
+ * the client (e.g. from ORS extras) are kept as evidence, as are grades from
+ * the elevation model (`profileRoute`), aligned with `segments`.
+ */
+export const classifyRouteSegments = async (segments, profile, grades = []) => {
+  const paths = await matchPaths(segments);
+  const withPaths = segments.map((segment, i) => ({
+    ...segment,
+    evidence: { tags: segment.tags ?? {}, path: paths[i], demIncline: grades[i]?.steepest ?? null },
+  }));
+  return addReportEvidence(withPaths, profile);
+};
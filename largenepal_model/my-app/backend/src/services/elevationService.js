@@ -0,0 +1,275 @@
+// my-app/backend/src/services/elevationService.js
+
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { fromFile } from 'geotiff';
+import { GRADE_WINDOW_M } from '../../../shared/effort.js';
+import { haversine, polylineLength } from '../../../shared/geo.js';
+
+// Elevation from a local DEM: GeoTIFF tiles in WGS84 lat/lng (e.g. SRTM or
+// Copernicus GLO-30 tiles; Kathmandu Valley is N27E085) placed in DEM_DIR,
+// by default backend/data/dem. Without tiles, routes simply have no
+// elevation data; nothing is made up.
+//
+// Rasters are read whole on first use and kept in memory – a 1 arc-second
+// tile is about 26 MB – so lookups along a route are synchronous. The cache
+// holds MAX_LOADED_TILES rasters, or as many as one request needs; a request
+// keeps the rasters it loaded until it is done, even if they are evicted.
+
+const DEM_DIR = process.env.DEM_DIR ?? path.join(path.dirname(fileURLToPath(import.meta.url)), '../../data/dem');
+
+const MAX_LOADED_TILES = 4;
+const SAMPLE_SPACING_M = 10;         // distance between profile samples
+
+/**
+ * @typedef {Object} DemTile
+ * @property {string} file
+ * @property {[number, number, number, number]} bbox   [west, south, east, north]
+ * @property {number} width
+ * @property {number} height
+ * @property {number | null} noData
+ * @property {import('geotiff').GeoTIFFImage} image
+ */
+
+/**
+ * @typedef {Object} SegmentGrade
+ * @property {number} grade          average grade over the segment (%), positive uphill
+ * @property {number} steepest       steepest grade on the segment (%), signed like `grade`
+ */
+
+/** @type {Promise<DemTile[]> | null} */
+let tilesPromise = null;
+/** @type {Map<string, Promise<ArrayLike<number>>>} file -> raster, least recently used first */
+const rasters = new Map();
+
+const openTiles = async () => {
+  let files;
+  try {
+    files = (await readdir(DEM_DIR)).filter((f) => /\.tiff?$/i.test(f));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+    console.warn(`No DEM directory at ${DEM_DIR}; routes will have no elevation data`);
+    return [];
+  }
+
+  const tiles = [];
+  for (const file of files) {
+    const tiff = await fromFile(path.join(DEM_DIR, file));
+    const image = await tiff.getImage();
+    if (image.getGeoKeys()?.ProjectedCSTypeGeoKey) {
+      console.warn(`Skipping DEM tile ${file}: only lat/lng (WGS84) rasters are supported`);
+      continue;
+    }
+    const noData = image.getGDALNoData();
+    tiles.push({
+      file,
+      bbox: image.getBoundingBox(),
+      width: image.getWidth(),
+      height: image.getHeight(),
+      noData: noData ?? null,
+      image,
+    });
+  }
+  return tiles;
+};
+
+const getTiles = () => {
+  tilesPromise ??= openTiles();
+  return tilesPromise;
+};
+
+const contains = ([west, south, east, north], { lat, lng }) =>
+  lng >= west && lng <= east && lat >= south && lat <= north;
+
+// Concurrent requests for the same tile share one read
+const loadRaster = (tile, keep) => {
+  let raster = rasters.get(tile.file);
+  if (raster) {
+    rasters.delete(tile.file);
+  } else {
+    raster = tile.image.readRasters({ samples: [0] }).then(([samples]) => samples);
+    raster.catch(() => {
+      if (rasters.get(tile.file) === raster) rasters.delete(tile.file);
+    });
+  }
+  rasters.set(tile.file, raster);
+  while (rasters.size > Math.max(MAX_LOADED_TILES, keep)) rasters.delete(rasters.keys().next().value);
+  return raster;
+};
+
+/**
+ * Rasters of all `tiles`, read if they are not in memory yet.
+ * @param {DemTile[]} tiles
+ * @returns {Promise<Map<DemTile, ArrayLike<number>>>}
+ */
+const loadRasters = async (tiles) => {
+  const loaded = await Promise.all(tiles.map((tile) => loadRaster(tile, tiles.length)));
+  return new Map(tiles.map((tile, i) => [tile, loaded[i]]));
+};
+
+// Bilinear interpolation between the four cells around the point
+const elevationInTile = (tile, raster, { lat, lng }) => {
+  const [west, south, east, north] = tile.bbox;
+  const x = Math.min(Math.max(((lng - west) / (east - west)) * tile.width - 0.5, 0), tile.width - 1);
+  const y = Math.min(Math.max(((north - lat) / (north - south)) * tile.height - 0.5, 0), tile.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, tile.width - 1);
+  const y1 = Math.min(y0 + 1, tile.height - 1);
+
+  const cells = [
+    [x0, y0, (1 - (x - x0)) * (1 - (y - y0))],
+    [x1, y0, (x - x0) * (1 - (y - y0))],
+    [x0, y1, (1 - (x - x0)) * (y - y0)],
+    [x1, y1, (x - x0) * (y - y0)],
+  ];
+  let sum = 0;
+  let weight = 0;
+  for (const [cx, cy, w] of cells) {
+    const value = raster[cy * tile.width + cx];
+    if (value === tile.noData || !Number.isFinite(value) || value < -500) continue;
+    sum += value * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : null;
+};
+
+/**
+ * Elevation in metres for each { lat, lng } point, or null where no DEM tile
+ * covers it.
+ * @param {{ lat: number, lng: number }[]} points
+ * @returns {Promise<(number | null)[]>}
+ */
+export const sampleElevations = async (points) => {
+  const tiles = await getTiles();
+  const tileOf = points.map((p) => tiles.find((t) => contains(t.bbox, p)) ?? null);
+  const loaded = await loadRasters([...new Set(tileOf)].filter(Boolean));
+  return points.map((p, i) => (tileOf[i] ? elevationInTile(tileOf[i], loaded.get(tileOf[i]), p) : null));
+};
+
+/**
+ * Loads the tiles covering a { minLng, minLat, maxLng, maxLat } box and
+ * returns a synchronous `(point) => elevation | null` lookup, or null when
+ * no tile overlaps the box.
+ */
+export const elevationLookup = async (bounds) => {
+  const tiles = (await getTiles()).filter(
+    ({ bbox: [west, south, east, north] }) =>
+      west <= bounds.maxLng && east >= bounds.minLng && south <= bounds.maxLat && north >= bounds.minLat
+  );
+  if (tiles.length === 0) return null;
+  const loaded = await loadRasters(tiles);
+
+  return (point) => {
+    const tile = tiles.find((t) => contains(t.bbox, point));
+    return tile ? elevationInTile(tile, loaded.get(tile), point) : null;
+  };
+};
+
+const round1 = (n) => Math.round(n * 10) / 10;
+
+// Points every SAMPLE_SPACING_M along a [lat, lng] polyline, plus its vertices
+const resample = (coordinates) => {
+  const samples = [];
+  let travelled = 0;
+  for (let i = 0; i < coordinates.length; i++) {
+    const [lat, lng] = coordinates[i];
+    if (i > 0) {
+      const [prevLat, prevLng] = coordinates[i - 1];
+      const length = haversine({ lat: prevLat, lng: prevLng }, { lat, lng });
+      for (let d = SAMPLE_SPACING_M; d < length; d += SAMPLE_SPACING_M) {
+        const t = d / length;
+        samples.push({ lat: prevLat + t * (lat - prevLat), lng: prevLng + t * (lng - prevLng), distance: travelled + d });
+      }
+      travelled += length;
+    }
+    samples.push({ lat, lng, distance: travelled });
+  }
+  return samples;
+};
+
+/**
+ * Samples the DEM along a route given as segments of [lat, lng] coordinates.
+ * Returns the elevation profile of the whole route and the grade of each
+ * segment in the direction of travel, or null when the DEM does not cover
+ * the route. Distances are metres from the start.
+ * @param {{ coordinates: [number, number][] }[]} segments
+ * @returns {Promise<{ profile: { distance: number, elevation: number }[], grades: (SegmentGrade | null)[] } | null>}
+ */
+export const profileRoute = async (segments) => {
+  const coordinates = segments.flatMap((s, i) => (i === 0 ? s.coordinates : s.coordinates.slice(1)));
+  if (coordinates.length < 2) return null;
+
+  const samples = resample(coordinates);
+  const elevations = await sampleElevations(samples);
+  const profile = samples
+    .map((s, i) => ({ distance: s.distance, elevation: elevations[i] }))
+    .filter((p) => p.elevation !== null);
+  if (profile.length < 2) return null;
+
+  // Grade at profile point `j`, over GRADE_WINDOW_M centred on it but kept
+  // within [from, to] so a turn onto another street does not bleed in
+  const gradeAt = (j, from, to) => {
+    const d = profile[j].distance;
+    const low = Math.max(from, d - GRADE_WINDOW_M / 2);
+    const high = Math.min(to, d + GRADE_WINDOW_M / 2);
+    let lo = j;
+    let hi = j;
+    while (lo > 0 && profile[lo - 1].distance >= low) lo--;
+    while (hi < profile.length - 1 && profile[hi + 1].distance <= high) hi++;
+    const run = profile[hi].distance - profile[lo].distance;
+    return run > 0 ? ((profile[hi].elevation - profile[lo].elevation) / run) * 100 : 0;
+  };
+
+  // Index of the profile point closest to `distance`
+  const nearest = (distance) => {
+    let lo = 0;
+    let hi = profile.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (profile[mid].distance < distance) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo > 0 && distance - profile[lo - 1].distance < profile[lo].distance - distance ? lo - 1 : lo;
+  };
+  const near = (distance) => {
+    const i = nearest(distance);
+    return Math.abs(profile[i].distance - distance) <= GRADE_WINDOW_M ? i : null;
+  };
+
+  let offset = 0;
+  // Consecutive segments share their joining point
+  const grades = segments.map((segment) => {
+    const start = offset;
+    const end = offset + polylineLength(segment.coordinates);
+    offset = end;
+
+    const inside = [];
+    for (let j = nearest(start); j < profile.length && profile[j].distance <= end; j++) {
+      if (profile[j].distance >= start) inside.push(j);
+    }
+    let pointGrades = inside.map((j) => gradeAt(j, start, end));
+    if (end - start < GRADE_WINDOW_M) {
+      // Too short to measure on its own: take the grade around its middle
+      const middle = near((start + end) / 2);
+      pointGrades = middle === null ? [] : [gradeAt(middle, 0, Infinity)];
+    }
+    if (pointGrades.length === 0) return null;
+
+    const steepest = pointGrades.reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+    const first = near(start);
+    const last = near(end);
+    const run = first !== null && last !== null ? profile[last].distance - profile[first].distance : 0;
+
+    return {
+      grade: round1(run > 0 ? ((profile[last].elevation - profile[first].elevation) / run) * 100 : steepest),
+      steepest: round1(steepest),
+    };
+  });
+
+  return {
+    profile: profile.map((p) => ({ distance: round1(p.distance), elevation: round1(p.elevation) })),
+    grades,
+  };
+};
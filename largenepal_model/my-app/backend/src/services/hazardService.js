@@ -0,0 +1,21 @@
+// my-app/backend/src/services/hazardService.js
+
+import pool from '../config/db.js';
+
+// Shape expected by the frontend's HazardPoint and by obstacleFromHazard
+const HAZARD_COLUMNS = `id, hazard_type AS type, category, description, source,
+  ST_X(location) AS lng, ST_Y(location) AS lat`;
+
+/**
+ * Hazard points inside { minLng, minLat, maxLng, maxLat }, at most `limit`.
+ */
+export const loadHazardsInBounds = async (bounds, limit = 1000) => {
+  const result = await pool.query(
+    `SELECT ${HAZARD_COLUMNS}
+     FROM hazards
+     WHERE location && ST_MakeEnvelope($1, $2, $3, $4, 4326)
+     LIMIT $5`,
+    [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat, limit]
+  );
+  return result.rows;
+};
@@ -0,0 +1,103 @@
+// my-app/backend/src/services/isochroneService.js
+
+import pool from '../config/db.js';
+import { getMobilityProfile } from '../../../shared/mobilityProfiles.js';
+import { edgeCostFactor, reachableFrom } from './routingService.js';
+
+// Reachable areas ("isochrones") around a point for a mobility profile.
+//
+// The path graph is expanded from the point over the edges the profile can
+// use. With a `time` budget, a place is reachable when the shortest walk or
+// roll there takes no longer than the budget at the profile's speed. With an
+// `effort` budget, the physical effort of the chair (see shared/effort.js)
+// is used instead of the distance, so slopes and rough surfaces eat into the
+// budget; an hour of effort on flat asphalt is an hour of time.
+//
+// Each area is the reachable part of the network (partly reachable edges
+// are cut where the budget runs out) widened by AREA_BUFFER_M, so it
+// follows the streets instead of drawing a circle across a river. The area
+// of a smaller budget is cut out of the next larger one, so they form bands.
+
+const AREA_BUFFER_M = 25;
+const SIMPLIFY_DEG = 0.00003;        // ~3 m
+
+/**
+ * @typedef {Object} Isochrone
+ * @property {number} minutes
+ * @property {object | null} geometry   GeoJSON (Multi)Polygon of what is reachable within `minutes`
+ *                                      but not within the next smaller budget; null when empty
+ */
+
+/**
+ * Reachable network pieces for a budget, as [lng, lat] lines
+ * @param {number} limit   budget in metres of distance (time) or of effort on flat asphalt (effort)
+ */
+const reachableLines = (network, limit, budget) => {
+  const { graph, reached, snap, options } = network;
+  const lines = [];
+  const spent = (node) => (budget === 'effort' ? node.cost : node.distance) + snap;
+
+  for (const [key, here] of reached) {
+    const left = limit - spent(here);
+    if (left <= 0) continue;
+    const a = graph.nodes.get(key);
+
+    for (const edge of graph.adjacency.get(key)) {
+      const factor = edgeCostFactor(edge, options);
+      if (!Number.isFinite(factor)) continue;
+      const b = graph.nodes.get(edge.to);
+      const length = budget === 'effort' ? edge.length * factor : edge.length;
+      // Where the budget runs out part-way along, only that part counts.
+      // Edges reachable from both ends come twice; the buffer merges them.
+      const t = Math.min(1, left / length);
+      lines.push([
+        [a.lng, a.lat],
+        [a.lng + t * (b.lng - a.lng), a.lat + t * (b.lat - a.lat)],
+      ]);
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Reachable areas from { lat, lng } for every budget in `minutes`.
+ * Resolves to null when the point is not near the path network.
+ * @param {{ lat: number, lng: number }} origin
+ * @param {{ minutes: number[], budget?: 'time' | 'effort', profileId?: string, preferences?: object, maxInclinePercent?: number, chairType?: import('../../../shared/effort.js').ChairType }} query
+ * @returns {Promise<Isochrone[] | null>}
+ */
+export const reachableAreas = async (
+  origin,
+  { minutes, budget = 'time', profileId, preferences, maxInclinePercent, chairType = 'manual' }
+) => {
+  const profile = getMobilityProfile(profileId);
+  const metres = (m) => m * 60 * profile.speedMps;
+  // Effort is never below distance, so the longest budget bounds both kinds
+  const network = await reachableFrom(origin, metres(Math.max(...minutes)), {
+    profileId,
+    preferences,
+    maxInclinePercent,
+    ...(budget === 'time' ? { shortest: true } : { effortOf: chairType }),
+  });
+  if (!network) return null;
+
+  const lines = minutes.map((m) => {
+    const reachable = reachableLines(network, metres(m), budget);
+    return reachable.length === 0 ? null : JSON.stringify({ type: 'MultiLineString', coordinates: reachable });
+  });
+  const result = await pool.query(
+    `WITH areas AS (
+       SELECT i, m, ST_Simplify(ST_Buffer(ST_GeomFromGeoJSON(line)::geography, $3)::geometry, $4) AS area
+       FROM unnest($1::float[], $2::text[]) WITH ORDINALITY AS u(m, line, i)
+     ), bands AS (
+       SELECT i, COALESCE(ST_Difference(area, LAG(area) OVER (ORDER BY m)), area) AS band
+       FROM areas
+     )
+     SELECT CASE WHEN ST_IsEmpty(band) THEN NULL ELSE ST_AsGeoJSON(band, 6)::json END AS geometry
+     FROM bands
+     ORDER BY i`,
+    [minutes, lines, AREA_BUFFER_M, SIMPLIFY_DEG]
+  );
+  return result.rows.map((row, i) => ({ minutes: minutes[i], geometry: row.geometry }));
+};
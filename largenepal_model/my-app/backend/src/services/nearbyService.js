@@ -0,0 +1,159 @@
+// my-app/backend/src/services/nearbyService.js
+
+import pool from '../config/db.js';
+import { haversine } from '../../../shared/geo.js';
+import { estimateTravelTime } from '../../../shared/mobilityProfiles.js';
+import { reachableFrom, reachableFromRoute } from './routingService.js';
+
+// Accessible services (places) near a point, with the distance a user of a
+// mobility profile has to walk or roll along the path network to reach
+// them – a clinic across a river or up a flight of steps is further than
+// its straight-line distance suggests.
+//
+// A place counts as accessible when it is mapped wheelchair=yes/designated
+// or has a ramp or an accessible toilet.
+
+const ACCESSIBLE = `(LOWER(wheelchair_accessible) IN ('yes', 'designated')
+  OR has_ramp = TRUE OR has_accessible_toilet = TRUE)`;
+
+const SERVICE_COLUMNS = `
+  id, name, category,
+  wheelchair_accessible, has_ramp, has_accessible_toilet,
+  avg_score, review_count, entry_accessible, space_maneuverable,
+  accessibility_score, score_breakdown,
+  ST_X(geom) AS lng, ST_Y(geom) AS lat`;
+
+const MAX_CANDIDATES = 500;
+// How far along the network to look for the way to a place off a route, as
+// a multiple of the corridor the places were found in
+const DETOUR_REACH = 3;
+// Places are joined to their nearest path node within this distance
+const MAX_PLACE_SNAP_M = 150;
+const SNAP_CELL_DEG = 0.001;         // grid cell for that lookup, ~100 m
+const SNAP_CELL_SPAN = 2;            // cells searched each way, covering MAX_PLACE_SNAP_M
+
+/**
+ * @typedef {Object} NearbyQuery
+ * @property {number} radius                 metres, straight line and along paths
+ * @property {string[]} [categories]         empty for every category
+ * @property {'distance' | 'accessibility'} [sort]
+ * @property {number} limit
+ * @property {number} offset
+ * @property {string} [profileId]
+ * @property {object} [preferences]
+ */
+
+const cellOf = (lat, lng) => [Math.floor(lat / SNAP_CELL_DEG), Math.floor(lng / SNAP_CELL_DEG)];
+
+// Looks up the nearest path node to a point without scanning them all
+const nodeIndex = (graph) => {
+  const cells = new Map();
+  for (const node of graph.nodes.values()) {
+    const cell = cellOf(node.lat, node.lng).join(',');
+    if (!cells.has(cell)) cells.set(cell, []);
+    cells.get(cell).push(node);
+  }
+
+  return (point) => {
+    const [row, col] = cellOf(point.lat, point.lng);
+    let best = null;
+    for (let r = row - SNAP_CELL_SPAN; r <= row + SNAP_CELL_SPAN; r++) {
+      for (let c = col - SNAP_CELL_SPAN; c <= col + SNAP_CELL_SPAN; c++) {
+        for (const node of cells.get(`${r},${c}`) ?? []) {
+          const d = haversine(node, point);
+          if (d <= MAX_PLACE_SNAP_M && (!best || d < best.distance)) best = { node, distance: d };
+        }
+      }
+    }
+    return best;
+  };
+};
+
+// Distance along the paths to a place's own nearest node, then straight to
+// the place; null when that node was not reached. A reached node nearby may
+// be across a river or up a flight of steps, so it does not stand in.
+const networkDistanceTo = (reached, nearestNode, point) => {
+  const snap = nearestNode(point);
+  const here = snap && reached.get(snap.node.key);
+  return here ? here.distance + snap.distance : null;
+};
+
+const byNetworkDistance = (a, b) =>
+  (a.network_distance_m ?? Infinity) - (b.network_distance_m ?? Infinity) || a.distance_m - b.distance_m;
+
+const byAccessibility = (a, b) =>
+  (Number(b.accessibility_score) || -1) - (Number(a.accessibility_score) || -1) || byNetworkDistance(a, b);
+
+/**
+ * Accessible places within `radius` of { lat, lng }, one page of them, plus
+ * per-category counts. Counts ignore the category filter so they can be
+ * offered as filters themselves.
+ * @param {{ lat: number, lng: number }} origin
+ * @param {NearbyQuery} query
+ */
+export const findNearbyServices = async (origin, { radius, categories = [], sort = 'distance', limit, offset, profileId, preferences }) => {
+  const point = 'ST_SetSRID(ST_MakePoint($1, $2), 4326)';
+  const params = [origin.lng, origin.lat, radius];
+
+  const [candidates, facets, network] = await Promise.all([
+    pool.query(
+      `SELECT ${SERVICE_COLUMNS}, ST_Distance(geom::geography, ${point}::geography) AS distance_m
+       FROM places
+       WHERE ST_DWithin(geom::geography, ${point}::geography, $3)
+         AND ${ACCESSIBLE}
+         ${categories.length > 0 ? 'AND category = ANY($4)' : ''}
+       ORDER BY geom <-> ${point}
+       LIMIT ${MAX_CANDIDATES}`,
+      categories.length > 0 ? [...params, categories] : params
+    ),
+    pool.query(
+      `SELECT category, COUNT(*)::int AS count
+       FROM places
+       WHERE ST_DWithin(geom::geography, ${point}::geography, $3)
+         AND ${ACCESSIBLE}
+       GROUP BY category
+       ORDER BY count DESC, category`,
+      params
+    ),
+    reachableFrom(origin, radius, { profileId, preferences }),
+  ]);
+
+  const nearestNode = network && nodeIndex(network.graph);
+  const services = candidates.rows.map((row) => {
+    const reach = network && networkDistanceTo(network.reached, nearestNode, { lat: row.lat, lng: row.lng });
+    const networkDistance = reach == null ? null : network.snap + reach;
+    return {
+      ...row,
+      distance_m: Math.round(row.distance_m),
+      network_distance_m: networkDistance === null ? null : Math.round(networkDistance),
+      travel_time_s: networkDistance === null ? null : Math.round(estimateTravelTime(networkDistance, network.profile)),
+    };
+  });
+  services.sort(sort === 'accessibility' ? byAccessibility : byNetworkDistance);
+
+  return {
+    services: services.slice(offset, offset + limit),
+    total: services.length,
+    facets: facets.rows,
+  };
+};
+
+/**
+ * Adds `detour_m` to each place row within `corridor` metres of a route
+ * ([lng, lat] pairs): the walk or roll from the route to the place and back
+ * along the paths the profile can use, or null when the place's own nearest
+ * path node cannot be reached within DETOUR_REACH times the corridor.
+ * @param {[number, number][]} line
+ * @param {{ lat: number, lng: number }[]} places
+ * @param {number} corridor
+ * @param {{ profileId?: string, preferences?: object }} [query]
+ */
+export const addRouteDetours = async (line, places, corridor, { profileId, preferences } = {}) => {
+  const network = places.length > 0 ? await reachableFromRoute(line, corridor * DETOUR_REACH, { profileId, preferences }) : null;
+  const nearestNode = network && nodeIndex(network.graph);
+
+  return places.map((row) => {
+    const oneWay = network && networkDistanceTo(network.reached, nearestNode, { lat: row.lat, lng: row.lng });
+    return { ...row, detour_m: oneWay == null ? null : Math.round(2 * oneWay) };
+  });
+};
@@ -0,0 +1,306 @@
+// my-app/backend/src/services/osmImportService.js
+
+import pool from '../config/db.js';
+import { readOsm } from './osmReader.js';
+import { hazardRowFromTags, isPathWay, pathFromTags, placeFromTags } from './osmTags.js';
+import { rescorePlaces } from './scoringService.js';
+
+// Imports an OSM extract into `paths`, `places` and `hazards`.
+//
+// Rows are keyed by their OSM id (`paths.osm_id`, `osm_type` + `osm_id` on
+// `places` and `hazards`), so importing the same or a newer extract again
+// updates rows in place. A row is only rewritten when its OSM version changed, unless
+// `force` is set (e.g. after the tag interpretation itself changed).
+// Review data on places is never touched.
+//
+// Imported rows missing from the new extract (a demolished footpath, a
+// closed shop, a finished construction site) are deleted. Rows without an
+// OSM id were added by hand and are left alone, and so are places that have
+// reviews, so that no review is lost.
+//
+// The extract is read twice: ways first, to learn which nodes are needed,
+// then nodes. This keeps only the coordinates of relevant nodes in memory.
+
+const BATCH_SIZE = 500;
+
+/**
+ * @typedef {Object} UpsertCounts
+ * @property {number} inserted
+ * @property {number} updated
+ * @property {number} unchanged
+ * @property {number} removed
+ */
+
+const collect = async (file) => {
+  const pathWays = [];
+  const placeWays = [];
+  const hazardWays = [];
+  const neededNodes = new Set();
+
+  await readOsm(file, 'way', (way) => {
+    const place = placeFromTags(way.tags);
+    const hazard = hazardRowFromTags(way.tags);
+    const isPath = isPathWay(way.tags);
+    if (isPath) pathWays.push(way);
+    if (place) placeWays.push({ ...way, place });
+    if (hazard) hazardWays.push({ ...way, hazard });
+    if (isPath || place || hazard) way.refs.forEach((ref) => neededNodes.add(ref));
+  });
+
+  const coordinates = new Map();
+  const kerbs = new Map();
+  const placeNodes = [];
+  const hazardNodes = [];
+
+  await readOsm(file, 'node', (node) => {
+    if (neededNodes.has(node.id)) {
+      coordinates.set(node.id, [node.lon, node.lat]);
+      if (node.tags.kerb) kerbs.set(node.id, node.tags.kerb);
+    }
+    const place = placeFromTags(node.tags);
+    if (place) placeNodes.push({ ...node, place });
+    const hazard = hazardRowFromTags(node.tags);
+    if (hazard) hazardNodes.push({ ...node, hazard });
+  });
+
+  return { pathWays, placeWays, placeNodes, hazardWays, hazardNodes, coordinates, kerbs };
+};
+
+const toPathRow = (way, coordinates, kerbs) => {
+  // Extracts are clipped, so ways at the edge may miss some nodes
+  const line = way.refs.map((ref) => coordinates.get(ref)).filter(Boolean);
+  if (line.length < 2) return null;
+
+  return {
+    osm_id: way.id,
+    osm_version: way.version,
+    geometry: { type: 'LineString', coordinates: line },
+    ...pathFromTags(way.tags, way.refs.map((ref) => kerbs.get(ref)).filter(Boolean)),
+  };
+};
+
+const toPlaceRow = (element, coordinates) => {
+  let lng = element.lon;
+  let lat = element.lat;
+
+  if (element.type === 'way') {
+    // Closed ways repeat their first node at the end
+    const refs = element.refs.length > 1 && element.refs[0] === element.refs.at(-1) ? element.refs.slice(1) : element.refs;
+    const points = refs.map((ref) => coordinates.get(ref)).filter(Boolean);
+    if (points.length === 0) return null;
+    lng = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+    lat = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  }
+
+  return { osm_type: element.type, osm_id: element.id, osm_version: element.version, lng, lat, ...element.place };
+};
+
+// A way's hazard sits on its middle node, so it lies on the way itself
+const toHazardRow = (element, coordinates) => {
+  let lng = element.lon;
+  let lat = element.lat;
+
+  if (element.type === 'way') {
+    const points = element.refs.map((ref) => coordinates.get(ref)).filter(Boolean);
+    if (points.length === 0) return null;
+    [lng, lat] = points[Math.floor(points.length / 2)];
+  }
+
+  return { osm_type: element.type, osm_id: element.id, osm_version: element.version, lng, lat, ...element.hazard };
+};
+
+const tally = (counts, rows) => {
+  for (const row of rows) {
+    if (row.inserted) counts.inserted++;
+    else counts.updated++;
+  }
+};
+
+// Remembers which OSM ids a batch contains, including unchanged rows that
+// the upsert does not return
+const recordImported = (client, table, batch) =>
+  client.query(`INSERT INTO ${table} SELECT * FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb)`, [
+    JSON.stringify(batch),
+  ]);
+
+/**
+ * Writes every path in `rows` and deletes OSM paths that are no longer in
+ * the extract.
+ * @returns {Promise<UpsertCounts>}
+ */
+const upsertPaths = async (client, rows, force) => {
+  const counts = { inserted: 0, updated: 0, unchanged: 0, removed: 0 };
+  await client.query('CREATE TEMP TABLE imported_paths (osm_id BIGINT) ON COMMIT DROP');
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const result = await client.query(
+      `INSERT INTO paths (osm_id, osm_version, line_geom, name, surface_type, incline_percent, width_cm,
+                          has_curb_cuts, is_lit_at_night, path_type)
+       SELECT r.osm_id, r.osm_version, ST_SetSRID(ST_GeomFromGeoJSON(r.geometry::text), 4326), r.name,
+              r.surface_type, r.incline_percent, r.width_cm, r.has_curb_cuts, r.is_lit_at_night, r.path_type
+       FROM jsonb_to_recordset($1::jsonb) AS r(
+         osm_id BIGINT, osm_version INTEGER, geometry JSONB, name VARCHAR(255), surface_type VARCHAR(50),
+         incline_percent FLOAT, width_cm INTEGER, has_curb_cuts BOOLEAN, is_lit_at_night BOOLEAN, path_type VARCHAR(30)
+       )
+       ON CONFLICT (osm_id) DO UPDATE SET
+         osm_version = EXCLUDED.osm_version,
+         line_geom = EXCLUDED.line_geom,
+         name = EXCLUDED.name,
+         surface_type = EXCLUDED.surface_type,
+         incline_percent = EXCLUDED.incline_percent,
+         width_cm = EXCLUDED.width_cm,
+         has_curb_cuts = EXCLUDED.has_curb_cuts,
+         is_lit_at_night = EXCLUDED.is_lit_at_night,
+         path_type = EXCLUDED.path_type
+       WHERE $2 OR paths.osm_version IS DISTINCT FROM EXCLUDED.osm_version OR EXCLUDED.osm_version IS NULL
+       RETURNING (xmax = 0) AS inserted`,
+      [JSON.stringify(batch), force]
+    );
+    tally(counts, result.rows);
+    counts.unchanged += batch.length - result.rows.length;
+    await recordImported(client, 'imported_paths', batch);
+  }
+
+  const removed = await client.query(
+    `DELETE FROM paths p
+     WHERE p.osm_id IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM imported_paths i WHERE i.osm_id = p.osm_id)`
+  );
+  counts.removed = removed.rowCount;
+
+  return counts;
+};
+
+/**
+ * Writes every place in `rows` and deletes OSM places that are no longer in
+ * the extract and have no reviews.
+ * @returns {Promise<UpsertCounts & { changedIds: string[] }>}
+ */
+const upsertPlaces = async (client, rows, force) => {
+  const counts = { inserted: 0, updated: 0, unchanged: 0, removed: 0, changedIds: [] };
+  await client.query('CREATE TEMP TABLE imported_places (osm_type VARCHAR(8), osm_id BIGINT) ON COMMIT DROP');
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const result = await client.query(
+      `INSERT INTO places (osm_type, osm_id, osm_version, name, category, geom,
+                           wheelchair_accessible, has_ramp, has_accessible_toilet, created_at)
+       SELECT r.osm_type, r.osm_id, r.osm_version, r.name, r.category, ST_SetSRID(ST_MakePoint(r.lng, r.lat), 4326),
+              r.wheelchair_accessible, r.has_ramp, r.has_accessible_toilet, NOW()
+       FROM jsonb_to_recordset($1::jsonb) AS r(
+         osm_type VARCHAR(8), osm_id BIGINT, osm_version INTEGER, name VARCHAR(255), category VARCHAR(50),
+         lng FLOAT, lat FLOAT, wheelchair_accessible VARCHAR(20), has_ramp BOOLEAN, has_accessible_toilet BOOLEAN
+       )
+       ON CONFLICT (osm_type, osm_id) DO UPDATE SET
+         osm_version = EXCLUDED.osm_version,
+         name = EXCLUDED.name,
+         category = EXCLUDED.category,
+         geom = EXCLUDED.geom,
+         wheelchair_accessible = EXCLUDED.wheelchair_accessible,
+         has_ramp = EXCLUDED.has_ramp,
+         has_accessible_toilet = EXCLUDED.has_accessible_toilet
+       WHERE $2 OR places.osm_version IS DISTINCT FROM EXCLUDED.osm_version OR EXCLUDED.osm_version IS NULL
+       RETURNING id, (xmax = 0) AS inserted`,
+      [JSON.stringify(batch), force]
+    );
+    tally(counts, result.rows);
+    counts.unchanged += batch.length - result.rows.length;
+    counts.changedIds.push(...result.rows.map((r) => r.id));
+    await recordImported(client, 'imported_places', batch);
+  }
+
+  const removed = await client.query(
+    `DELETE FROM places p
+     WHERE p.osm_id IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM imported_places i WHERE i.osm_type = p.osm_type AND i.osm_id = p.osm_id)
+       AND NOT EXISTS (SELECT 1 FROM reviews v WHERE v.place_id = p.id)`
+  );
+  counts.removed = removed.rowCount;
+
+  return counts;
+};
+
+/**
+ * Writes every hazard in `rows` and deletes OSM hazards that are no longer
+ * in the extract.
+ * @returns {Promise<UpsertCounts>}
+ */
+const upsertHazards = async (client, rows, force) => {
+  const counts = { inserted: 0, updated: 0, unchanged: 0, removed: 0 };
+  await client.query('CREATE TEMP TABLE imported_hazards (osm_type VARCHAR(8), osm_id BIGINT) ON COMMIT DROP');
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const result = await client.query(
+      `INSERT INTO hazards (osm_type, osm_id, osm_version, hazard_type, category, description, location, source, updated_at)
+       SELECT r.osm_type, r.osm_id, r.osm_version, r.hazard_type, r.category, r.description,
+              ST_SetSRID(ST_MakePoint(r.lng, r.lat), 4326), 'osm', NOW()
+       FROM jsonb_to_recordset($1::jsonb) AS r(
+         osm_type VARCHAR(8), osm_id BIGINT, osm_version INTEGER, hazard_type VARCHAR(10),
+         category VARCHAR(50), description TEXT, lng FLOAT, lat FLOAT
+       )
+       ON CONFLICT (osm_type, osm_id) DO UPDATE SET
+         osm_version = EXCLUDED.osm_version,
+         hazard_type = EXCLUDED.hazard_type,
+         category = EXCLUDED.category,
+         description = EXCLUDED.description,
+         location = EXCLUDED.location,
+         updated_at = NOW()
+       WHERE $2 OR hazards.osm_version IS DISTINCT FROM EXCLUDED.osm_version OR EXCLUDED.osm_version IS NULL
+       RETURNING (xmax = 0) AS inserted`,
+      [JSON.stringify(batch), force]
+    );
+    tally(counts, result.rows);
+    counts.unchanged += batch.length - result.rows.length;
+    await recordImported(client, 'imported_hazards', batch);
+  }
+
+  const removed = await client.query(
+    `DELETE FROM hazards h
+     WHERE h.source = 'osm'
+       AND NOT EXISTS (SELECT 1 FROM imported_hazards i WHERE i.osm_type = h.osm_type AND i.osm_id = h.osm_id)`
+  );
+  counts.removed = removed.rowCount;
+
+  return counts;
+};
+
+/**
+ * Imports `paths`, `places` and `hazards` from an `.osm`, `.osm.gz` or `.osm.pbf` file
+ * in one transaction, then rescores the places that changed.
+ * @param {string} file
+ * @param {{ force?: boolean }} [options]
+ */
+export const importOsm = async (file, { force = false } = {}) => {
+  const { pathWays, placeWays, placeNodes, hazardWays, hazardNodes, coordinates, kerbs } = await collect(file);
+
+  const pathRows = pathWays.map((way) => toPathRow(way, coordinates, kerbs)).filter(Boolean);
+  const placeRows = [...placeNodes, ...placeWays].map((el) => toPlaceRow(el, coordinates)).filter(Boolean);
+  const hazardRows = [...hazardNodes, ...hazardWays].map((el) => toHazardRow(el, coordinates)).filter(Boolean);
+
+  const client = await pool.connect();
+  let paths;
+  let places;
+  let hazards;
+  try {
+    await client.query('BEGIN');
+    paths = await upsertPaths(client, pathRows, force);
+    places = await upsertPlaces(client, placeRows, force);
+    hazards = await upsertHazards(client, hazardRows, force);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  if (places.changedIds.length > 0) await rescorePlaces(places.changedIds);
+
+  return {
+    paths,
+    places: { inserted: places.inserted, updated: places.updated, unchanged: places.unchanged, removed: places.removed },
+    hazards,
+  };
+};
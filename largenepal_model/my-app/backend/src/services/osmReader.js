@@ -0,0 +1,117 @@
+// my-app/backend/src/services/osmReader.js
+
+import { spawn } from 'node:child_process';
+import { createReadStream } from 'node:fs';
+import { createGunzip } from 'node:zlib';
+
+// Streams the nodes and ways of an OSM extract without loading the whole file.
+// `.osm` and `.osm.gz` files are read as OSM XML directly; `.osm.pbf` files are
+// converted to XML on the fly by the `osmium` command-line tool (osmium-tool),
+// which must be installed for PBF imports.
+
+/**
+ * @typedef {Object} OsmElement
+ * @property {'node' | 'way'} type
+ * @property {number} id
+ * @property {number | null} version
+ * @property {number} [lat]                 nodes only
+ * @property {number} [lon]                 nodes only
+ * @property {number[]} refs                node ids, ways only
+ * @property {Record<string, string>} tags
+ */
+
+const ELEMENT_PATTERN = /<(\/?)(node|way|relation|tag|nd)\b([^>]*?)(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([\w:]+)="([^"]*)"/g;
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decode = (value) =>
+  value.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity) => {
+    if (entity[0] !== '#') return ENTITIES[entity.toLowerCase()];
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+const parseAttributes = (source) => {
+  const attributes = {};
+  for (const [, name, value] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name] = decode(value);
+  }
+  return attributes;
+};
+
+const openXmlStream = (file, objectType) => {
+  if (file.endsWith('.pbf')) {
+    const osmium = spawn('osmium', ['cat', file, '--object-type', objectType, '--output-format', 'osm'], {
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    osmium.on('error', (err) => {
+      const message = err.code === 'ENOENT' ? 'osmium is required to read .osm.pbf files (install osmium-tool)' : err.message;
+      osmium.stdout.destroy(new Error(message));
+    });
+    osmium.on('close', (code) => {
+      if (code) osmium.stdout.destroy(new Error(`osmium exited with code ${code}`));
+    });
+    return osmium.stdout;
+  }
+
+  const stream = createReadStream(file);
+  return file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+};
+
+/**
+ * Calls `onElement` for every node or way (as selected by `objectType`) in
+ * the extract, in file order. Relations are skipped.
+ * @param {string} file
+ * @param {'node' | 'way'} objectType
+ * @param {(element: OsmElement) => void} onElement
+ */
+export const readOsm = async (file, objectType, onElement) => {
+  const stream = openXmlStream(file, objectType);
+  stream.setEncoding('utf8');
+
+  let current = null;
+  let buffer = '';
+
+  const open = (type, attributes) => ({
+    type,
+    id: Number(attributes.id),
+    version: attributes.version ? Number(attributes.version) : null,
+    ...(type === 'node' ? { lat: Number(attributes.lat), lon: Number(attributes.lon) } : {}),
+    refs: [],
+    tags: {},
+  });
+
+  const emit = (element) => {
+    if (element.type === objectType) onElement(element);
+  };
+
+  for await (const chunk of stream) {
+    buffer += chunk;
+    const end = buffer.lastIndexOf('>') + 1;
+    if (end === 0) continue;
+
+    for (const [, closing, name, source, selfClosing] of buffer.slice(0, end).matchAll(ELEMENT_PATTERN)) {
+      if (closing) {
+        if (current && current.type === name) emit(current);
+        if (name === 'node' || name === 'way' || name === 'relation') current = null;
+        continue;
+      }
+
+      const attributes = parseAttributes(source);
+      if (name === 'tag') {
+        if (current) current.tags[attributes.k] = attributes.v;
+      } else if (name === 'nd') {
+        if (current) current.refs.push(Number(attributes.ref));
+      } else if (name === 'relation') {
+        current = selfClosing ? null : { type: 'relation', tags: {}, refs: [] };
+      } else {
+        const element = open(name, attributes);
+        if (selfClosing) emit(element);
+        else current = element;
+      }
+    }
+
+    buffer = buffer.slice(end);
+  }
+};
@@ -0,0 +1,79 @@
+// my-app/backend/src/services/osmTags.js
+
+import { curbCutsFromKerbs, hazardFromTags, interpretTags } from '../../../shared/osmTags.js';
+
+// Maps interpreted OSM tags (shared/osmTags.js) onto `paths`, `places` and
+// `hazards` columns for the OSM importer.
+
+// Roads are imported too: in much of the valley the carriageway is the only
+// way to walk. Routing prefers sidewalks through `path_type`.
+const FOOT_HIGHWAYS = ['footway', 'pedestrian', 'path', 'steps', 'living_street'];
+const ROAD_HIGHWAYS = ['residential', 'service', 'unclassified', 'tertiary', 'secondary', 'primary', 'track'];
+
+const PLACE_KEYS = ['amenity', 'shop', 'tourism', 'healthcare', 'leisure'];
+
+const yesNo = (value) => {
+  if (value === 'yes' || value === 'designated') return true;
+  if (value === 'no') return false;
+  return null;
+};
+
+/**
+ * Whether a way with these tags belongs in `paths`.
+ */
+export const isPathWay = (tags) => {
+  if (tags.area === 'yes' || tags.foot === 'no') return false;
+  if (FOOT_HIGHWAYS.includes(tags.highway)) return true;
+  return ROAD_HIGHWAYS.includes(tags.highway) && tags.access !== 'no' && tags.access !== 'private';
+};
+
+/**
+ * `paths` columns (without geometry) for a way. For a road mapped with a
+ * sidewalk, the sidewalk's own surface, width and kerbs win over the road's.
+ * @param {Record<string, string>} tags
+ * @param {string[]} kerbs  kerb=* values of the nodes on the way
+ */
+export const pathFromTags = (tags, kerbs = []) => {
+  const attrs = interpretTags(tags);
+  const onSidewalk = attrs.pathType === 'sidewalk' && tags.highway !== 'footway';
+
+  return {
+    name: (tags.name ?? tags['name:en'])?.slice(0, 255) ?? null,
+    surface_type: (onSidewalk && attrs.sidewalk.surface) || attrs.surface,
+    incline_percent: attrs.incline.percent,
+    width_cm: (onSidewalk && attrs.sidewalk.widthCm) || attrs.widthCm,
+    has_curb_cuts: curbCutsFromKerbs([attrs.kerb, onSidewalk ? attrs.sidewalk.kerb : null, ...kerbs]),
+    is_lit_at_night: attrs.isLit,
+    path_type: attrs.pathType,
+  };
+};
+
+/**
+ * `places` columns (without geometry) for a node or way, or null when it is
+ * not an amenity with wheelchair information.
+ */
+export const placeFromTags = (tags) => {
+  const key = PLACE_KEYS.find((k) => tags[k]);
+  if (!key || (!tags.wheelchair && !tags['toilets:wheelchair'])) return null;
+
+  const category = tags[key];
+  const attrs = interpretTags(tags);
+  const toilet = yesNo(tags['toilets:wheelchair']);
+
+  return {
+    name: (tags.name ?? tags['name:en'] ?? category.replace(/_/g, ' ')).slice(0, 255),
+    category: category.slice(0, 50),
+    wheelchair_accessible: attrs.wheelchair?.slice(0, 20) ?? null,
+    has_ramp: attrs.hasRamp,
+    has_accessible_toilet: category === 'toilets' && toilet === null ? yesNo(attrs.wheelchair) : toilet,
+  };
+};
+
+/**
+ * `hazards` columns (without location) for a node or way, or null when
+ * nothing about it is worth warning about.
+ */
+export const hazardRowFromTags = (tags) => {
+  const hazard = hazardFromTags(tags);
+  return hazard && { hazard_type: hazard.type, category: hazard.category, description: hazard.description };
+};
@@ -33,6 +33,7 @@
 // };
 
 
+import fs from 'fs';
 import path from 'path';
 
 export const photoService = {
@@ -44,4 +45,10 @@ export const photoService = {
   getAbsolutePath: (filename) => {
     return path.join(process.cwd(), 'uploads', filename);
   },
+
+  // Deletes an upload (multer's req.file) that was not saved with a record
+  discard: async (file) => {
+    if (!file) return;
+    await fs.promises.unlink(file.path).catch(() => {});
+  },
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+// my-app/backend/src/services/reportLifecycle.js
+
+import pool from '../config/db.js';
+
+// Report states:
+//   open      - just reported
+//   confirmed - someone else saw it too; each new confirmer extends expiry
+//   resolved  - its reporter, or enough other people, marked it fixed
+//   expired   - nobody confirmed it before expires_at (set by the sweep)
+
+// How long a report stays live without a confirmation, per issue type
+export const REPORT_LIFETIME_HOURS = {
+  construction: 14 * 24,
+  broken_ramp: 30 * 24,
+  pothole: 30 * 24,
+  blocked_sidewalk: 72,
+  other: 48,
+};
+const DEFAULT_LIFETIME_HOURS = 48;
+
+// Distinct people needed to resolve a report they did not file, scaled by
+// its confidence: a report many people vouched for takes more to clear.
+const MIN_RESOLVE_VOTES = 2;
+const RESOLVE_VOTES_AT_FULL_CONFIDENCE = 4;
+
+const SWEEP_INTERVAL_MS = Number(process.env.REPORT_SWEEP_INTERVAL_MS) || 10 * 60 * 1000;
+
+export const lifetimeHours = (issueType) => REPORT_LIFETIME_HOURS[issueType] ?? DEFAULT_LIFETIME_HOURS;
+
+export const isIssueType = (issueType) =>
+  typeof issueType === 'string' && Object.hasOwn(REPORT_LIFETIME_HOURS, issueType);
+
+const resolveVotesNeeded = (confidence) =>
+  Math.max(MIN_RESOLVE_VOTES, Math.round(RESOLVE_VOTES_AT_FULL_CONFIDENCE * Number(confidence)));
+
+// SQL condition for reports that should still be shown and routed around
+export const LIVE_REPORT_CONDITION = `status IN ('open', 'confirmed') AND expires_at > NOW()`;
+
+export const REPORT_COLUMNS = `id, client_id, issue_type, description, photo_url, status, confirm_count,
+  upvotes, downvotes, confidence, ST_X(location) AS lng, ST_Y(location) AS lat, created_at, expires_at`;
+
+export const findReport = async (id) => {
+  const result = await pool.query(`SELECT ${REPORT_COLUMNS} FROM reports WHERE id = $1`, [id]);
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Records that voterId saw a live report still present. The first
+ * confirmation from each person pushes its expiry out to at least one full
+ * lifetime from now. Resolves to 'ok', 'not_found' when the report does not
+ * exist or is no longer live, or 'own_report' when voterId filed it.
+ */
+export const confirmReport = async (id, voterId) => {
+  const live = await pool.query(`SELECT user_id FROM reports WHERE id = $1 AND ${LIVE_REPORT_CONDITION}`, [id]);
+  if (live.rows.length === 0) return 'not_found';
+  if (live.rows[0].user_id && live.rows[0].user_id === voterId) return 'own_report';
+
+  const inserted = await pool.query(
+    `INSERT INTO report_confirmations (report_id, voter_id)
+     VALUES ($1, $2)
+     ON CONFLICT (report_id, voter_id) DO NOTHING`,
+    [id, voterId]
+  );
+  if (inserted.rowCount === 0) return 'ok';
+
+  await pool.query(
+    `UPDATE reports
+     SET status = 'confirmed',
+         confirm_count = (SELECT COUNT(*) FROM report_confirmations WHERE report_id = $1),
+         last_confirmed_at = NOW(),
+         expires_at = GREATEST(
+           expires_at,
+           NOW() + make_interval(hours => COALESCE(($2::jsonb ->> issue_type)::int, $3))
+         )
+     WHERE id = $1`,
+    [id, JSON.stringify(REPORT_LIFETIME_HOURS), DEFAULT_LIFETIME_HOURS]
+  );
+  return 'ok';
+};
+
+/**
+ * Records that voterId saw a live report fixed. The report is resolved when
+ * voterId filed it, or once enough distinct people have marked it.
+ * Resolves to the report row (still live if more marks are needed), or null
+ * if the report does not exist or is no longer live.
+ */
+export const resolveReport = async (id, voterId) => {
+  const live = await pool.query(
+    `SELECT user_id, confidence FROM reports WHERE id = $1 AND ${LIVE_REPORT_CONDITION}`,
+    [id]
+  );
+  if (live.rows.length === 0) return null;
+  const { user_id, confidence } = live.rows[0];
+
+  if (!user_id || user_id !== voterId) {
+    await pool.query(
+      `INSERT INTO report_resolutions (report_id, voter_id)
+       VALUES ($1, $2)
+       ON CONFLICT (report_id, voter_id) DO NOTHING`,
+      [id, voterId]
+    );
+    const marks = await pool.query('SELECT COUNT(*)::int AS count FROM report_resolutions WHERE report_id = $1', [id]);
+    if (marks.rows[0].count < resolveVotesNeeded(confidence)) return findReport(id);
+  }
+
+  const result = await pool.query(
+    `UPDATE reports
+     SET status = 'resolved', is_active = false, resolved_at = NOW()
+     WHERE id = $1 AND ${LIVE_REPORT_CONDITION}
+     RETURNING ${REPORT_COLUMNS}`,
+    [id]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Moves every live report past its expiry to 'expired'.
+ * Resolves to the number of reports expired.
+ */
+export const expireStaleReports = async () => {
+  const result = await pool.query(
+    `UPDATE reports
+     SET status = 'expired', is_active = false
+     WHERE status IN ('open', 'confirmed') AND expires_at <= NOW()`
+  );
+  return result.rowCount;
+};
+
+/**
+ * Runs expireStaleReports every SWEEP_INTERVAL_MS. The timer does not keep
+ * the process alive on its own.
+ */
+export const startReportSweep = () => {
+  const sweep = async () => {
+    try {
+      const count = await expireStaleReports();
+      if (count > 0) console.log(`Expired ${count} stale reports`);
+    } catch (err) {
+      console.error('Report sweep error:', err);
+    }
+  };
+
+  sweep();
+  return setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+};
@@ -0,0 +1,77 @@
+// my-app/backend/src/services/reportTrust.js
+
+import pool from '../config/db.js';
+import { LIVE_REPORT_CONDITION } from './reportLifecycle.js';
+
+// Confidence is the mean of a Beta distribution over "this report is real".
+// The prior comes from the reporter's reputation (worth PRIOR_WEIGHT votes);
+// upvotes and confirmations (at most one per person) count for it,
+// downvotes against it.
+//
+// Reputation is the share of the reporter's other reports that someone later
+// confirmed, with one imagined success and one failure so that new and
+// anonymous reporters start at 0.5.
+
+const PRIOR_WEIGHT = 2;
+
+const REPUTATION_SQL = `(
+  SELECT (COUNT(*) FILTER (WHERE p.confirm_count > 0) + 1)::float / (COUNT(*) + 2)
+  FROM reports p
+  WHERE p.user_id = r.user_id AND p.id <> r.id
+)`;
+
+const CONFIDENCE_SQL = `(
+  (1 + ${PRIOR_WEIGHT} * ${REPUTATION_SQL} + r.upvotes + r.confirm_count)
+  / (2 + ${PRIOR_WEIGHT} + r.upvotes + r.downvotes + r.confirm_count)
+)`;
+
+/**
+ * Recomputes the confidence of one report and, because its confirmations
+ * feed the reporter's reputation, of every other live report by the same
+ * reporter.
+ */
+export const refreshConfidence = async (reportId) => {
+  await pool.query(
+    `UPDATE reports r
+     SET confidence = ${CONFIDENCE_SQL}
+     WHERE r.id = $1
+        OR (r.user_id = (SELECT user_id FROM reports WHERE id = $1) AND ${LIVE_REPORT_CONDITION})`,
+    [reportId]
+  );
+};
+
+/**
+ * Records (vote = 1 | -1) or withdraws (vote = 0) a vote and refreshes the
+ * report's counts and confidence. Resolves to 'ok', 'not_found' when the
+ * report does not exist or is no longer live, or 'own_report' when the
+ * voter filed the report themselves.
+ */
+export const castVote = async (reportId, voterId, vote) => {
+  const live = await pool.query(
+    `SELECT user_id FROM reports WHERE id = $1 AND ${LIVE_REPORT_CONDITION}`,
+    [reportId]
+  );
+  if (live.rows.length === 0) return 'not_found';
+  if (live.rows[0].user_id && live.rows[0].user_id === voterId) return 'own_report';
+
+  if (vote === 0) {
+    await pool.query('DELETE FROM report_votes WHERE report_id = $1 AND voter_id = $2', [reportId, voterId]);
+  } else {
+    await pool.query(
+      `INSERT INTO report_votes (report_id, voter_id, vote)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (report_id, voter_id) DO UPDATE SET vote = EXCLUDED.vote, created_at = NOW()`,
+      [reportId, voterId, vote]
+    );
+  }
+
+  await pool.query(
+    `UPDATE reports
+     SET upvotes = (SELECT COUNT(*) FROM report_votes WHERE report_id = $1 AND vote = 1),
+         downvotes = (SELECT COUNT(*) FROM report_votes WHERE report_id = $1 AND vote = -1)
+     WHERE id = $1`,
+    [reportId]
+  );
+  await refreshConfidence(reportId);
+  return 'ok';
+};
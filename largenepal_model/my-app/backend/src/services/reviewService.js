@@ -0,0 +1,43 @@
+// my-app/backend/src/services/reviewService.js
+
+import pool from '../config/db.js';
+import { rescorePlaces } from './scoringService.js';
+
+// Keeps the review aggregates on `places` in step with its reviews:
+//   avg_score          - mean rating (1–5)
+//   review_count       - number of reviews
+//   entry_accessible,
+//   space_maneuverable - what the majority of reviewers who answered said
+//                        (NULL when nobody answered or it is a tie)
+// and then refreshes the place's accessibility score, which includes reviews.
+// Pass a client as `db` to run inside its transaction.
+
+export const recomputePlaceAggregates = async (placeId, db = pool) => {
+  await db.query(
+    `UPDATE places p
+     SET avg_score = agg.avg_rating,
+         review_count = agg.review_count,
+         entry_accessible = CASE
+           WHEN agg.entry_yes > agg.entry_no THEN true
+           WHEN agg.entry_no > agg.entry_yes THEN false
+         END,
+         space_maneuverable = CASE
+           WHEN agg.space_yes > agg.space_no THEN true
+           WHEN agg.space_no > agg.space_yes THEN false
+         END
+     FROM (
+       SELECT AVG(rating) AS avg_rating,
+              COUNT(*) AS review_count,
+              COUNT(*) FILTER (WHERE entry_accessible) AS entry_yes,
+              COUNT(*) FILTER (WHERE NOT entry_accessible) AS entry_no,
+              COUNT(*) FILTER (WHERE space_maneuverable) AS space_yes,
+              COUNT(*) FILTER (WHERE NOT space_maneuverable) AS space_no
+       FROM reviews
+       WHERE place_id = $1
+     ) agg
+     WHERE p.id = $1`,
+    [placeId]
+  );
+
+  await rescorePlaces([placeId], db);
+};
@@ -0,0 +1,711 @@
+// my-app/backend/src/services/routingService.js
+
+import pool from '../config/db.js';
+import { GRADE_WINDOW_M, edgeEffortFactor, routeEffort } from '../../../shared/effort.js';
+import { distanceToSegment, haversine } from '../../../shared/geo.js';
+import {
+  RAISED_CURB_HEIGHT_CM,
+  estimateTravelTime,
+  getMobilityProfile,
+} from '../../../shared/mobilityProfiles.js';
+import {
+  OBSTACLE_BUFFER_M,
+  obstacleFromHazard,
+  obstacleFromReport,
+  obstaclePenalty,
+  obstacleWarnings,
+} from '../../../shared/obstacles.js';
+import { buildInstructions } from '../../../shared/routeInstructions.js';
+import {
+  addReportEvidence,
+  applyClassification,
+  loadActiveReportsInBounds,
+} from './classificationService.js';
+import { elevationLookup, profileRoute } from './elevationService.js';
+import { loadHazardsInBounds } from './hazardService.js';
+
+// Routing engine over the `paths` table.
+// Every path LineString is split into vertex-to-vertex edges; vertices that
+// share (rounded) coordinates become the same graph node, so paths that meet
+// at a common vertex are connected.
+
+const NODE_PRECISION = 6;            // ~0.1 m – vertices closer than this are merged
+const SEARCH_BUFFER_M = 500;         // extra area loaded around the start/end box
+const MAX_SNAP_DISTANCE_M = 300;     // how far start/end may be from the network
+const ROUTE_SNAP_M = 20;             // path nodes this close to a route are on it
+
+const STEPS_PENALTY = 3;             // cost factor for steps when a profile allows them
+const MAX_ROUTES = 3;                 // recommended route plus alternatives
+
+// Cost tweaks for the alternatives offered next to the recommended route.
+// Hard constraints (profile limits, enforced preferences) still apply.
+const ROUTE_VARIANTS = {
+  shortest: { shortest: true },
+  flattest: { inclineWeight: 20 },
+  fewestHazards: { obstacleWeight: 3 },
+};
+
+const UNPAVED_SURFACES = ['unpaved', 'gravel', 'fine_gravel', 'compacted', 'ground', 'dirt', 'grass', 'sand'];
+const SIDEWALK_PATH_TYPES = ['sidewalk', 'footway', 'crossing', 'pedestrian'];
+
+// Relative effort of rolling over each surface (1 = smooth asphalt)
+export const SURFACE_FACTORS = {
+  asphalt: 1,
+  concrete: 1,
+  paved: 1,
+  paving_stones: 1.1,
+  compacted: 1.3,
+  fine_gravel: 1.5,
+  sett: 1.6,
+  cobblestone: 1.8,
+  unpaved: 2,
+  gravel: 2.2,
+  ground: 2.2,
+  dirt: 2.5,
+  grass: 3,
+  sand: 4,
+};
+
+const UNKNOWN_SURFACE_FACTOR = 1.2;
+
+// ─── Geometry helpers ───────────────────────────────────────
+
+const nodeKey = (lng, lat) => `${lng.toFixed(NODE_PRECISION)},${lat.toFixed(NODE_PRECISION)}`;
+
+const lineParts = (geometry) => {
+  if (!geometry) return [];
+  if (geometry.type === 'LineString') return [geometry.coordinates];
+  if (geometry.type === 'MultiLineString') return geometry.coordinates;
+  return [];
+};
+
+// ─── Cost model ─────────────────────────────────────────────
+
+const surfaceFactor = (surface) => {
+  if (!surface) return UNKNOWN_SURFACE_FACTOR;
+  return SURFACE_FACTORS[surface.toLowerCase()] ?? UNKNOWN_SURFACE_FACTOR;
+};
+
+/**
+ * Cost multiplier for one edge. Returns Infinity when the edge cannot be used
+ * at all (too steep, too narrow, or missing curb cuts when those are required).
+ */
+export const edgeCostFactor = (edge, options) => {
+  const incline = Math.abs(edge.incline ?? edge.demIncline ?? 0);
+  if (incline > options.maxInclinePercent) return Infinity;
+  if (edge.widthCm != null && edge.widthCm < options.minWidthCm) return Infinity;
+  if (options.requireCurbCuts && edge.hasCurbCuts === false) return Infinity;
+  if (edge.surface && options.blockedSurfaces.includes(edge.surface.toLowerCase())) return Infinity;
+  if (edge.pathType === 'steps' && !options.allowsSteps) return Infinity;
+  if (options.shortest) return 1;
+  if (options.effortOf) {
+    return edgeEffortFactor({ surface: edge.surface, incline: edge.incline ?? edge.demIncline }, options.effortOf);
+  }
+
+  const inclineFactor = 1 + (options.inclineWeight ?? 2) * (incline / options.maxInclinePercent) ** 2;
+
+  let widthFactor = 1;
+  if (edge.widthCm == null) widthFactor = 1.1;
+  else if (edge.widthCm < 120) widthFactor = 1.3;
+
+  let curbFactor = 1;
+  if (edge.hasCurbCuts === false) curbFactor = 1.5;
+  else if (edge.hasCurbCuts == null) curbFactor = 1.05;
+
+  const sidewalkFactor =
+    edge.pathType && !SIDEWALK_PATH_TYPES.includes(edge.pathType) ? options.nonSidewalkPenalty : 1;
+  const stepsFactor = edge.pathType === 'steps' ? STEPS_PENALTY : 1;
+
+  let obstacleFactor = 1;
+  if (edge.obstacles && !options.ignoreObstacles) {
+    for (const obstacle of edge.obstacles) obstacleFactor *= obstaclePenalty(obstacle) ** (options.obstacleWeight ?? 1);
+  }
+
+  return (
+    surfaceFactor(edge.surface) * inclineFactor * widthFactor * curbFactor * sidewalkFactor * stepsFactor * obstacleFactor
+  );
+};
+
+/**
+ * Builds routing options from a mobility profile, then tightens them with the
+ * frontend `RoutePreferences`. Also reports how each preference was applied
+ * ('enforced' = hard constraint, 'penalized' = extra cost only).
+ */
+export const buildRouteOptions = (profileId, preferences = {}) => {
+  const profile = getMobilityProfile(profileId);
+  const options = {
+    profile,
+    maxInclinePercent: profile.maxInclinePercent,
+    minWidthCm: profile.minWidthCm,
+    requireCurbCuts: profile.maxCurbHeightCm < RAISED_CURB_HEIGHT_CM,
+    blockedSurfaces: profile.surfaceBlacklist,
+    allowsSteps: profile.allowsSteps,
+    nonSidewalkPenalty: 1,
+  };
+  const honored = [];
+
+  if (preferences.avoidSteepSlopes) {
+    options.maxInclinePercent = Math.min(options.maxInclinePercent, 6);
+    honored.push({ key: 'avoidSteepSlopes', status: 'enforced' });
+  }
+  if (preferences.avoidNarrowAlleys) {
+    options.minWidthCm = Math.max(options.minWidthCm, 120);
+    honored.push({ key: 'avoidNarrowAlleys', status: 'enforced' });
+  }
+  if (preferences.avoidUnpaved) {
+    options.blockedSurfaces = [...new Set([...options.blockedSurfaces, ...UNPAVED_SURFACES])];
+    honored.push({ key: 'avoidUnpaved', status: 'enforced' });
+  }
+  if (preferences.preferSidewalks) {
+    options.nonSidewalkPenalty = 1.5;
+    honored.push({ key: 'preferSidewalks', status: 'penalized' });
+  }
+
+  return { options, honored };
+};
+
+// ─── Graph ──────────────────────────────────────────────────
+
+// Grade from a to b, measured over at least GRADE_WINDOW_M around the
+// edge's middle (extended along its direction) so that DEM noise on short
+// edges does not turn into steep grades
+const demGrade = (elevationAt, a, b, length) => {
+  const run = Math.max(length, GRADE_WINDOW_M);
+  const reach = run / length / 2;
+  const along = (t) => ({ lat: (a.lat + b.lat) / 2 + t * (b.lat - a.lat), lng: (a.lng + b.lng) / 2 + t * (b.lng - a.lng) });
+  const from = elevationAt(along(-reach));
+  const to = elevationAt(along(reach));
+  return from == null || to == null ? null : ((to - from) / run) * 100;
+};
+
+/**
+ * Builds an adjacency list from `paths` rows (geometry as GeoJSON).
+ * Edges are stored in both directions; incline sign is flipped for the
+ * reverse direction so uphill/downhill stay meaningful. With an elevation
+ * lookup, edges of paths without a mapped incline get `demIncline`.
+ */
+export const buildGraph = (rows, elevationAt = null) => {
+  const nodes = new Map();   // key -> { key, lat, lng }
+  const adjacency = new Map(); // key -> edge[]
+
+  const addNode = ([lng, lat]) => {
+    const key = nodeKey(lng, lat);
+    if (!nodes.has(key)) {
+      nodes.set(key, { key, lat, lng });
+      adjacency.set(key, []);
+    }
+    return nodes.get(key);
+  };
+
+  for (const row of rows) {
+    for (const coords of lineParts(row.geometry)) {
+      for (let i = 0; i < coords.length - 1; i++) {
+        const a = addNode(coords[i]);
+        const b = addNode(coords[i + 1]);
+        if (a.key === b.key) continue;
+
+        const length = haversine(a, b);
+        const attrs = {
+          pathId: row.id,
+          surface: row.surface_type ?? null,
+          widthCm: row.width_cm ?? null,
+          hasCurbCuts: row.has_curb_cuts ?? null,
+          isLit: row.is_lit_at_night ?? null,
+          pathType: row.path_type ?? null,
+          name: row.name ?? null,
+          length,
+        };
+        const incline = row.incline_percent ?? null;
+        const demIncline = incline == null && elevationAt ? demGrade(elevationAt, a, b, length) : null;
+
+        adjacency.get(a.key).push({ ...attrs, from: a.key, to: b.key, incline, demIncline });
+        adjacency.get(b.key).push({
+          ...attrs,
+          from: b.key,
+          to: a.key,
+          incline: incline == null ? null : -incline,
+          demIncline: demIncline == null ? null : -demIncline,
+        });
+      }
+    }
+  }
+
+  return { nodes, adjacency };
+};
+
+/**
+ * Tags every edge that passes within OBSTACLE_BUFFER_M of an obstacle with
+ * `edge.obstacles`, which edgeCostFactor turns into extra cost.
+ */
+export const attachObstacles = (graph, obstacles) => {
+  if (obstacles.length === 0) return;
+  const dLat = OBSTACLE_BUFFER_M / 111320;
+
+  for (const edges of graph.adjacency.values()) {
+    for (const edge of edges) {
+      const a = graph.nodes.get(edge.from);
+      const b = graph.nodes.get(edge.to);
+      const dLng = dLat / Math.cos((a.lat * Math.PI) / 180);
+
+      const near = obstacles.filter(
+        (o) =>
+          o.lat >= Math.min(a.lat, b.lat) - dLat &&
+          o.lat <= Math.max(a.lat, b.lat) + dLat &&
+          o.lng >= Math.min(a.lng, b.lng) - dLng &&
+          o.lng <= Math.max(a.lng, b.lng) + dLng &&
+          distanceToSegment(o, a, b).distance <= OBSTACLE_BUFFER_M
+      );
+      if (near.length > 0) edge.obstacles = near;
+    }
+  }
+};
+
+// Distinct obstacles touched by a list of edges
+const obstaclesOn = (edges) => {
+  const found = new Map();
+  for (const edge of edges) {
+    for (const obstacle of edge.obstacles ?? []) found.set(obstacle.key, obstacle);
+  }
+  return [...found.values()];
+};
+
+export const nearestNode = (graph, point) => {
+  let best = null;
+  let bestDist = Infinity;
+  for (const node of graph.nodes.values()) {
+    const d = haversine(node, point);
+    if (d < bestDist) {
+      best = node;
+      bestDist = d;
+    }
+  }
+  return best ? { node: best, distance: bestDist } : null;
+};
+
+// Minimal binary heap keyed on `priority`
+class MinHeap {
+  constructor() {
+    this.items = [];
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(value, priority) {
+    this.items.push({ value, priority });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].priority <= this.items[i].priority) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < this.items.length && this.items[l].priority < this.items[smallest].priority) smallest = l;
+        if (r < this.items.length && this.items[r].priority < this.items[smallest].priority) smallest = r;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * A* search from `startKey` to `goalKey`. The heuristic is straight-line
+ * distance, which is admissible because every cost factor is >= 1.
+ * Returns the list of edges along the cheapest path, or null.
+ */
+export const shortestPath = (graph, startKey, goalKey, options) => {
+  const goal = graph.nodes.get(goalKey);
+  const cost = new Map([[startKey, 0]]);
+  const via = new Map();
+  const heap = new MinHeap();
+  heap.push(startKey, 0);
+
+  while (heap.size > 0) {
+    const { value: key } = heap.pop();
+    if (key === goalKey) break;
+
+    for (const edge of graph.adjacency.get(key)) {
+      const factor = edgeCostFactor(edge, options);
+      if (!Number.isFinite(factor)) continue;
+
+      const next = cost.get(key) + edge.length * factor;
+      if (next < (cost.get(edge.to) ?? Infinity)) {
+        cost.set(edge.to, next);
+        via.set(edge.to, edge);
+        heap.push(edge.to, next + haversine(graph.nodes.get(edge.to), goal));
+      }
+    }
+  }
+
+  if (!via.has(goalKey) && startKey !== goalKey) return null;
+
+  const edges = [];
+  for (let key = goalKey; key !== startKey; key = via.get(key).from) {
+    edges.unshift(via.get(key));
+  }
+  return edges;
+};
+
+/**
+ * Dijkstra from `startKey` (or from every key in a list of them) to every
+ * node within `maxDistance` metres of walking, over the edges the profile
+ * can use. Paths are the cheapest by cost, like shortestPath's, and
+ * `distance` is how far they are.
+ * @param {string | string[]} startKey
+ * @returns {Map<string, { cost: number, distance: number }>}
+ */
+export const distancesFrom = (graph, startKey, options, maxDistance = Infinity) => {
+  const starts = [startKey].flat();
+  const reached = new Map(starts.map((key) => [key, { cost: 0, distance: 0 }]));
+  const done = new Set();
+  const heap = new MinHeap();
+  for (const key of starts) heap.push(key, 0);
+
+  while (heap.size > 0) {
+    const { value: key } = heap.pop();
+    if (done.has(key)) continue;
+    done.add(key);
+    const here = reached.get(key);
+
+    for (const edge of graph.adjacency.get(key)) {
+      const factor = edgeCostFactor(edge, options);
+      const distance = here.distance + edge.length;
+      if (!Number.isFinite(factor) || distance > maxDistance) continue;
+
+      const cost = here.cost + edge.length * factor;
+      if (cost < (reached.get(edge.to)?.cost ?? Infinity)) {
+        reached.set(edge.to, { cost, distance });
+        heap.push(edge.to, cost);
+      }
+    }
+  }
+
+  return reached;
+};
+
+// ─── Result assembly ────────────────────────────────────────
+
+/**
+ * Merges consecutive edges of the same path into segments shaped like the
+ * frontend `RouteSegment` (coordinates as [lat, lng]), each rated by the
+ * shared classifier from the path's own attributes.
+ */
+const buildSegments = (graph, edges, options) => {
+  const segments = [];
+  let current = null;
+  let previous = null;
+
+  for (const edge of edges) {
+    const from = graph.nodes.get(edge.from);
+    const to = graph.nodes.get(edge.to);
+
+    if (!current || previous.pathId !== edge.pathId || previous.incline !== edge.incline) {
+      const evidence = {
+        path: {
+          id: edge.pathId,
+          surface: edge.surface,
+          incline: edge.incline,
+          widthCm: edge.widthCm,
+          hasCurbCuts: edge.hasCurbCuts,
+          pathType: edge.pathType,
+        },
+      };
+      current = applyClassification(
+        { pathId: edge.pathId, coordinates: [[from.lat, from.lng]], distance: 0, cost: 0 },
+        evidence,
+        options.profile
+      );
+      segments.push(current);
+    }
+
+    current.coordinates.push([to.lat, to.lng]);
+    current.distance += edge.length;
+    current.cost += edge.length * edgeCostFactor(edge, options);
+    previous = edge;
+  }
+
+  return segments;
+};
+
+const buildWarnings = (segments, snap) => {
+  const warnings = [];
+  const steep = segments.filter((s) => Math.abs(s.incline ?? 0) > 5);
+  const noCurbCuts = segments.filter((s) => s.hasCurbCuts === false);
+  const unknown = segments.filter((s) => s.surface == null || s.width == null);
+
+  if (steep.length > 0) {
+    const max = Math.max(...steep.map((s) => Math.abs(s.incline)));
+    warnings.push(`Steep section on route (up to ${max.toFixed(1)}% incline)`);
+  }
+  if (noCurbCuts.length > 0) warnings.push(`${noCurbCuts.length} crossing(s) without curb cuts`);
+  if (unknown.length > 0) warnings.push('Some path segments have no surface or width data');
+  if (snap > 50) warnings.push(`Start or end is ${Math.round(snap)} m from the nearest mapped path`);
+
+  return warnings;
+};
+
+// ─── Database access ────────────────────────────────────────
+
+const boundsAround = (from, to, bufferM) => {
+  const midLat = (from.lat + to.lat) / 2;
+  const dLat = bufferM / 111320;
+  const dLng = bufferM / (111320 * Math.cos((midLat * Math.PI) / 180));
+  return {
+    minLng: Math.min(from.lng, to.lng) - dLng,
+    minLat: Math.min(from.lat, to.lat) - dLat,
+    maxLng: Math.max(from.lng, to.lng) + dLng,
+    maxLat: Math.max(from.lat, to.lat) + dLat,
+  };
+};
+
+export const loadPaths = async (bounds) => {
+  const result = await pool.query(
+    `SELECT id, ST_AsGeoJSON(line_geom)::json AS geometry, name,
+            surface_type, incline_percent, width_cm, has_curb_cuts, is_lit_at_night, path_type
+     FROM paths
+     WHERE line_geom && ST_MakeEnvelope($1, $2, $3, $4, 4326)`,
+    [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat]
+  );
+  return result.rows;
+};
+
+// Identifies a path, to tell whether two searches found the same route
+const edgeSignature = (edges) => edges.map((edge) => edge.to).join(';');
+
+/**
+ * Turns the edges of a path into a RouteResult-shaped object: classified
+ * segments, instructions, elevation profile, warnings and the obstacles it
+ * passes or avoided compared with `baseline`.
+ */
+const assembleRoute = async (graph, edges, baseline, snap, options) => {
+  const onRoute = obstaclesOn(edges);
+  const onRouteKeys = new Set(onRoute.map((o) => o.key));
+  const avoided = obstaclesOn(baseline).filter((o) => !onRouteKeys.has(o.key));
+
+  const built = buildSegments(graph, edges, options);
+  const elevation = await profileRoute(built);
+  const segments = await addReportEvidence(
+    built.map((s, i) => ({ ...s, evidence: { ...s.evidence, demIncline: elevation?.grades[i]?.steepest ?? null } })),
+    options.profile
+  );
+  const totalDistance = segments.reduce((sum, s) => sum + s.distance, 0);
+  const coordinates = [];
+  segments.forEach((s, i) => {
+    const coords = s.coordinates.map(([lat, lng]) => [lng, lat]);
+    coordinates.push(...(i === 0 ? coords : coords.slice(1)));
+  });
+  const instructions = buildInstructions(
+    edges.map((edge) => {
+      const from = graph.nodes.get(edge.from);
+      const to = graph.nodes.get(edge.to);
+      return { from: [from.lat, from.lng], to: [to.lat, to.lng], length: edge.length, name: edge.name, pathType: edge.pathType };
+    })
+  );
+
+  return {
+    geometry: { type: 'LineString', coordinates },
+    segments,
+    instructions,
+    elevationProfile: elevation?.profile,
+    totalDistance,
+    estimatedTime: estimateTravelTime(totalDistance, options.profile),
+    warnings: [...obstacleWarnings(avoided, onRoute), ...buildWarnings(segments, snap)],
+    obstacles: { avoided, onRoute },
+    profile: options.profile.id,
+  };
+};
+
+/**
+ * The path graph inside `bounds`, with DEM inclines and with active reports,
+ * stored hazards and the given hazard points attached as obstacles.
+ */
+const loadNetwork = async (bounds, hazards = []) => {
+  const [rows, reports, storedHazards, elevationAt] = await Promise.all([
+    loadPaths(bounds),
+    loadActiveReportsInBounds(bounds),
+    loadHazardsInBounds(bounds),
+    elevationLookup(bounds),
+  ]);
+  const graph = buildGraph(rows, elevationAt);
+
+  // Hazards sent by the client usually duplicate the stored ones; keep one
+  // obstacle per key.
+  const candidates = [
+    ...reports.map((r) =>
+      obstacleFromReport({ ...r, type: r.issue_type, confidence: Number(r.confidence) })
+    ),
+    ...[...storedHazards, ...hazards].map(obstacleFromHazard),
+  ].filter(Boolean);
+  const obstacles = [...new Map(candidates.map((o) => [o.key, o])).values()];
+  attachObstacles(graph, obstacles);
+
+  return { graph, obstacles };
+};
+
+/**
+ * Everywhere on the path network within `radius` metres of walking or
+ * rolling from `origin`, for a mobility profile. `maxInclinePercent` can
+ * only tighten the profile's limit. With `shortest`, nodes are reached by
+ * their shortest accessible path instead of the cheapest one; with
+ * `effortOf` (a chair type), by the one that takes the least effort. Resolves to the graph, the reached nodes
+ * (see distancesFrom), the options used and how far `origin` is from the
+ * network, or null when it is not near any path.
+ */
+export const reachableFrom = async (
+  origin,
+  radius,
+  { profileId, preferences, maxInclinePercent, shortest = false, effortOf = null } = {}
+) => {
+  const { options } = buildRouteOptions(profileId, preferences);
+  if (Number.isFinite(maxInclinePercent)) {
+    options.maxInclinePercent = Math.min(options.maxInclinePercent, maxInclinePercent);
+  }
+  if (shortest) options.shortest = true;
+  if (effortOf) options.effortOf = effortOf;
+  const { graph } = await loadNetwork(boundsAround(origin, origin, radius));
+
+  const start = nearestNode(graph, origin);
+  if (!start || start.distance > MAX_SNAP_DISTANCE_M) return null;
+
+  return {
+    graph,
+    reached: distancesFrom(graph, start.node.key, options, radius - start.distance),
+    snap: start.distance,
+    options,
+    profile: options.profile,
+  };
+};
+
+/**
+ * Everywhere on the path network within `radius` metres of walking or
+ * rolling from a route given as [lng, lat] pairs, for a mobility profile.
+ * The search starts from every path node within ROUTE_SNAP_M of the route
+ * and follows the shortest accessible paths. Resolves to the graph, the
+ * reached nodes (see distancesFrom) and the profile, or null when the route
+ * does not follow the path network.
+ */
+export const reachableFromRoute = async (line, radius, { profileId, preferences } = {}) => {
+  const { options } = buildRouteOptions(profileId, preferences);
+  const points = line.map(([lng, lat]) => ({ lat, lng }));
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const { graph } = await loadNetwork(
+    boundsAround(
+      { lat: Math.min(...lats), lng: Math.min(...lngs) },
+      { lat: Math.max(...lats), lng: Math.max(...lngs) },
+      radius
+    )
+  );
+
+  const dLat = ROUTE_SNAP_M / 111320;
+  const onRoute = (node) => {
+    const dLng = dLat / Math.cos((node.lat * Math.PI) / 180);
+    return points.some(
+      (b, i) =>
+        i > 0 &&
+        node.lat >= Math.min(points[i - 1].lat, b.lat) - dLat &&
+        node.lat <= Math.max(points[i - 1].lat, b.lat) + dLat &&
+        node.lng >= Math.min(points[i - 1].lng, b.lng) - dLng &&
+        node.lng <= Math.max(points[i - 1].lng, b.lng) + dLng &&
+        distanceToSegment(node, points[i - 1], b).distance <= ROUTE_SNAP_M
+    );
+  };
+  const starts = [...graph.nodes.values()].filter(onRoute).map((node) => node.key);
+  if (starts.length === 0) return null;
+
+  return {
+    graph,
+    reached: distancesFrom(graph, starts, { ...options, shortest: true }, radius),
+    profile: options.profile,
+  };
+};
+
+/**
+ * Finds the cheapest accessible route between two { lat, lng } points for a
+ * mobility profile, steering around active reports, stored hazards and the
+ * given hazard points. Resolves to a RouteResult-shaped object plus a GeoJSON
+ * `geometry`, or null when the two points are not connected. `alternatives`
+ * holds the other distinct routes found with the ROUTE_VARIANTS costs, up to
+ * MAX_ROUTES in all, each tagged with its `variant`.
+ *
+ * With `chair` settings every route gets its `effort`. When the chair has an
+ * effort limit, a least-effort route is searched for as well, and if the
+ * recommended route goes over the limit the first route that stays under it
+ * is recommended instead.
+ */
+export const findRoute = async (from, to, { profileId, preferences, hazards = [], chair = null } = {}) => {
+  const { options, honored } = buildRouteOptions(profileId, preferences);
+  const buffer = Math.max(SEARCH_BUFFER_M, haversine(from, to) * 0.5);
+  const { graph, obstacles } = await loadNetwork(boundsAround(from, to, buffer), hazards);
+
+  const start = nearestNode(graph, from);
+  const end = nearestNode(graph, to);
+  if (!start || !end || start.distance > MAX_SNAP_DISTANCE_M || end.distance > MAX_SNAP_DISTANCE_M) {
+    return null;
+  }
+
+  const edges = shortestPath(graph, start.node.key, end.node.key, options);
+  if (!edges) return null;
+
+  // Whatever the obstacle-blind route would have passed but a route does
+  // not counts as avoided.
+  const baseline = obstacles.length > 0
+    ? shortestPath(graph, start.node.key, end.node.key, { ...options, ignoreObstacles: true }) ?? []
+    : [];
+  const snap = Math.max(start.distance, end.distance);
+
+  const limited = chair && (chair.type === 'powered' ? chair.maxBatteryPercent : chair.maxPushKj) != null;
+  const variants = {
+    ...(limited ? { leastEffort: { effortOf: chair.type } } : {}),
+    ...ROUTE_VARIANTS,
+  };
+  const withEffort = (route) => (chair ? { ...route, effort: routeEffort(route, chair) } : route);
+
+  // Each variant that finds a path of its own becomes an alternative
+  const seen = new Set([edgeSignature(edges)]);
+  const alternatives = [];
+  for (const [variant, tweaks] of Object.entries(variants)) {
+    if (alternatives.length === MAX_ROUTES - 1) break;
+    const found = shortestPath(graph, start.node.key, end.node.key, { ...options, ...tweaks });
+    if (!found || seen.has(edgeSignature(found))) continue;
+    seen.add(edgeSignature(found));
+    const route = await assembleRoute(graph, found, baseline, snap, options);
+    alternatives.push({ ...withEffort(route), variant, preferences: honored });
+  }
+
+  const recommended = { ...withEffort(await assembleRoute(graph, edges, baseline, snap, options)), variant: 'recommended' };
+  if (!limited || !recommended.effort.overLimit) {
+    return { ...recommended, alternatives, preferences: honored };
+  }
+
+  const withinLimit = alternatives.find((r) => !r.effort.overLimit);
+  if (!withinLimit) {
+    return {
+      ...recommended,
+      warnings: ['Every route found takes more effort than your limit', ...recommended.warnings],
+      alternatives,
+      preferences: honored,
+    };
+  }
+  return {
+    ...withinLimit,
+    alternatives: [recommended, ...alternatives.filter((r) => r !== withinLimit)],
+    preferences: honored,
+  };
+};
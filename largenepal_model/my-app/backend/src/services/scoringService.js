@@ -0,0 +1,46 @@
+// my-app/backend/src/services/scoringService.js
+
+import pool from '../config/db.js';
+import { scoreAccessibility } from '../../../shared/accessibilityScore.js';
+
+// Computes the shared accessibility score for `places` rows and stores it,
+// together with its breakdown, in `accessibility_score` / `score_breakdown`.
+
+/**
+ * Maps a `places` row (joined with its review aggregates) to scorer input.
+ */
+export const placeScoreInput = (row) => ({
+  wheelchair: row.wheelchair_accessible,
+  hasRamp: row.has_ramp,
+  entryAccessible: row.entry_accessible,
+  hasAccessibleToilet: row.has_accessible_toilet,
+  reviewRating: row.review_rating == null ? null : Number(row.review_rating),
+  reviewCount: Number(row.review_count ?? 0),
+});
+
+/**
+ * Recomputes and stores the score of the given places, or of every place
+ * when `ids` is omitted. Resolves to the number of places updated. Pass a
+ * client as `db` to run inside its transaction.
+ */
+export const rescorePlaces = async (ids = null, db = pool) => {
+  const result = await db.query(
+    `SELECT p.id, p.wheelchair_accessible, p.has_ramp, p.has_accessible_toilet, p.entry_accessible,
+            AVG(r.rating) AS review_rating, COUNT(r.id) AS review_count
+     FROM places p
+     LEFT JOIN reviews r ON r.place_id = p.id
+     WHERE $1::uuid[] IS NULL OR p.id = ANY($1::uuid[])
+     GROUP BY p.id`,
+    [ids]
+  );
+
+  for (const row of result.rows) {
+    const { score, components } = scoreAccessibility(placeScoreInput(row));
+    await db.query(
+      'UPDATE places SET accessibility_score = $2, score_breakdown = $3 WHERE id = $1',
+      [row.id, score, JSON.stringify(components)]
+    );
+  }
+
+  return result.rows.length;
+};
@@ -0,0 +1,21 @@
+// my-app/backend/src/utils/bbox.js
+
+// Largest bbox side we accept, in degrees (~50 km around Kathmandu)
+const MAX_BBOX_SPAN_DEG = 0.5;
+
+/**
+ * Parses a `bbox=minLng,minLat,maxLng,maxLat` query value.
+ * Returns null when it is malformed, inverted or larger than MAX_BBOX_SPAN_DEG.
+ */
+export const parseBbox = (value) => {
+  if (typeof value !== 'string') return null;
+
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return null;
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng >= maxLng || minLat >= maxLat) return null;
+  if (maxLng - minLng > MAX_BBOX_SPAN_DEG || maxLat - minLat > MAX_BBOX_SPAN_DEG) return null;
+
+  return { minLng, minLat, maxLng, maxLat };
+};
@@ -0,0 +1,20 @@
+// my-app/backend/src/utils/line.js
+
+// Most points we accept in a `line` query value; clients simplify longer routes
+const MAX_LINE_POINTS = 500;
+
+/**
+ * Parses a `line=lng,lat;lng,lat;...` query value into [lng, lat] pairs.
+ * Returns null when it is malformed, has fewer than two points or more than
+ * MAX_LINE_POINTS.
+ */
+export const parseLine = (value) => {
+  if (typeof value !== 'string') return null;
+
+  const points = value.split(';').map((pair) => pair.split(',').map(Number));
+  if (points.length < 2 || points.length > MAX_LINE_POINTS) return null;
+  if (points.some((p) => p.length !== 2 || !p.every(Number.isFinite))) return null;
+  if (points.some(([lng, lat]) => Math.abs(lng) > 180 || Math.abs(lat) > 90)) return null;
+
+  return points;
+};
@@ -0,0 +1,7 @@
+// my-app/backend/src/utils/uuid.js
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Route params are checked before querying so that a malformed id is a 404
+// rather than a Postgres cast error.
+export const isUuid = (value) => typeof value === 'string' && UUID_PATTERN.test(value);
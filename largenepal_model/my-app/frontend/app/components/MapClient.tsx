@@ -8,6 +8,6 @@ const Map = dynamic(() => import("./map"), {
   loading: () => <p>Loading Map...</p>,
 });
 
-export default function MapClient() {
-  return <Map />;
+export default function MapClient({ profile }: { profile?: string }) {
+  return <Map profileId={profile} />;
 }
\ No newline at end of file
@@ -8,8 +8,55 @@ import {
   Circle, Triangle, ArrowRight, ArrowLeft, ChevronRight,
   Camera, Shield, ShieldAlert, ShieldCheck, Layers, Menu,
   Home, User, Settings, HelpCircle, BarChart, BookOpen,
-  Wifi, WifiOff, Navigation2, Target, Compass
+  Wifi, WifiOff, Navigation2, Target, Compass,
+  ArrowUp, CornerUpLeft, CornerUpRight, RotateCcw, RefreshCw,
+  Volume2, VolumeX, Plus, GripVertical, Trash2, Toilet, Battery, Activity
 } from 'lucide-react';
+import {
+  MOBILITY_PROFILES,
+  estimateTravelTime,
+  getMobilityProfile,
+  type MobilityProfile,
+} from '../../../shared/mobilityProfiles.js';
+import {
+  classifySegment,
+  describeReasons,
+  type ClassificationReason,
+  type SegmentEvidence,
+} from '../../../shared/segmentClassifier.js';
+import { distanceToPolyline, pointAlong, polylineLength } from '../../../shared/geo.js';
+import {
+  DEFAULT_CHAIR,
+  EFFORT_RATINGS,
+  GRADE_WINDOW_M,
+  climbAndDescent,
+  routeEffort,
+  type ChairSettings,
+  type RouteEffort,
+} from '../../../shared/effort.js';
+import {
+  OBSTACLE_BUFFER_M,
+  obstacleFromHazard,
+  obstacleFromReport,
+  obstaclePenalty,
+  obstaclesNear,
+  obstacleWarnings,
+  type Obstacle,
+} from '../../../shared/obstacles.js';
+import {
+  scoreAccessibility,
+  scoreInputFromTags,
+  type AccessibilityScore,
+  type ScoreBreakdown,
+} from '../../../shared/accessibilityScore.js';
+import { hazardFromTags } from '../../../shared/osmTags.js';
+import {
+  annotateInstructions,
+  describeManeuver,
+  type Maneuver,
+  type RouteInstruction,
+} from '../../../shared/routeInstructions.js';
+import { trackProgress, type NavigationProgress } from '../../../shared/navigation.js';
 
 // ═══════════════════════════════════════════════════════════
 // TYPES
@@ -21,6 +68,84 @@ interface RouteSegment {
   surface?: string;
   incline?: number;
   description?: string;
+  pathId?: string;
+  width?: number;
+  hasCurbCuts?: boolean;
+  distance?: number;
+  tags?: Record<string, string>;
+  evidence?: SegmentEvidence;
+  reasons?: ClassificationReason[];
+  accessibilityScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+interface RoutePreferences {
+  avoidSteepSlopes: boolean;
+  avoidNarrowAlleys: boolean;
+  avoidUnpaved: boolean;
+  preferSidewalks: boolean;
+}
+
+type RoutePreferenceKey = keyof RoutePreferences;
+
+type VoiceVerbosity = 'brief' | 'standard' | 'detailed';
+type VoiceLanguage = 'en' | 'ne';
+type VoiceEvent = 'turns' | 'hazards' | 'offRoute' | 'arrival';
+
+interface VoiceSettings {
+  enabled: boolean;
+  verbosity: VoiceVerbosity;
+  language: VoiceLanguage;
+  events: Record<VoiceEvent, boolean>;
+}
+
+interface HonoredPreference {
+  key: RoutePreferenceKey;
+  status: 'enforced' | 'penalized' | 'not_supported';
+}
+
+interface ElevationPoint {
+  distance: number;             // metres from the start of the route
+  elevation: number;            // metres above sea level
+}
+
+interface ElevationStats {
+  climb: number;                // metres
+  descent: number;              // metres
+  steepestGrade: number;        // %, signed: negative is downhill
+  steepestLength: number;       // metres the steepest grade is held over
+}
+
+// An intermediate stop of a trip, between the start and the destination
+interface Waypoint {
+  id: string;
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+// One leg of a multi-stop trip, from one stop to the next
+interface RouteLeg {
+  from: string;
+  to: string;
+  distance: number;             // metres
+  estimatedTime: number;        // seconds
+  startDistance: number;        // metres from the start of the trip
+  segmentRange: [number, number]; // this leg's slice of the trip's segments
+}
+
+// How a route was chosen: the router's recommendation, or an alternative
+// optimised for one thing
+type RouteVariant = 'recommended' | 'shortest' | 'flattest' | 'fewestHazards' | 'leastEffort';
+
+// Figures for comparing routes side by side
+interface RouteSummary {
+  safePercent: number;          // share of the distance, 0–100
+  cautionPercent: number;
+  hazardPercent: number;
+  maxIncline: number;           // %, unsigned
+  steps: number;                // flights of steps
+  activeReports: number;        // distinct reports near the route
 }
 
 interface RouteResult {
@@ -28,15 +153,59 @@ interface RouteResult {
   totalDistance: number;
   estimatedTime: number;
   warnings: string[];
-  elevationProfile?: { distance: number; elevation: number }[];
+  elevationProfile?: ElevationPoint[];
+  geometry?: { type: 'LineString'; coordinates: [number, number][] };
+  preferences?: HonoredPreference[];
+  profile?: MobilityProfile['id'];
+  obstacles?: { avoided: Obstacle[]; onRoute: Obstacle[] };
+  instructions?: RouteInstruction[];
+  provider?: RoutingProviderId;
+  simulated?: boolean;          // not a real route: never present without a notice
+  variant?: RouteVariant;
+  alternatives?: RouteResult[]; // other routes the provider offered, best first
+  legs?: RouteLeg[];            // only on trips with waypoints
 }
 
+type RoutingProviderId = 'local' | 'ors' | 'osrm' | 'simulated';
+
+interface RouteRequest {
+  start: L.LatLng;
+  end: L.LatLng;
+  preferences: RoutePreferences;
+  profile: MobilityProfile;
+  hazards: HazardPoint[];
+  obstacles: Obstacle[];
+  chair: ChairSettings;
+}
+
+// A routing backend. Resolves to null when it cannot route (unreachable,
+// not configured, or no path) so the next configured provider is tried.
+interface RoutingProvider {
+  id: RoutingProviderId;
+  label: string;
+  route: (request: RouteRequest) => Promise<RouteResult | null>;
+}
+
+// Where hazard points came from: our imported OSM data, or – when the
+// backend cannot be reached – a live Overpass query
+type HazardSource = 'database' | 'overpass';
+
 interface HazardPoint {
   lat: number;
   lng: number;
   type: 'hazard' | 'caution';
   category: string;
   description: string;
+  source?: HazardSource;
+}
+
+// Element of an Overpass `out center` response
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
 }
 
 interface SearchResult {
@@ -47,6 +216,8 @@ interface SearchResult {
   lng: number;
   type: string;
   accessibilityScore: number;
+  scoreRated?: boolean;
+  scoreBreakdown?: ScoreBreakdown;
 }
 
 interface IssueReport {
@@ -56,6 +227,132 @@ interface IssueReport {
   type: 'blocked_sidewalk' | 'broken_ramp' | 'construction' | 'pothole' | 'other';
   description: string;
   timestamp: string;
+  photoUrl?: string;
+  pending?: boolean;   // still waiting in the local outbox
+  status?: 'open' | 'confirmed' | 'resolved';
+  confirmCount?: number;
+  expiresAt?: string;
+  upvotes?: number;
+  downvotes?: number;
+  confidence?: number;   // 0–1, from votes, confirmations and reporter reputation
+}
+
+type ReportAction = 'confirm' | 'resolve' | 'upvote' | 'downvote';
+
+// A report that could not be submitted yet; the photo is kept as a data URL
+interface OutboxReport extends IssueReport {
+  photo?: string;
+}
+
+// A `reports` row as returned by /api/reports
+interface BackendReport {
+  id: string;
+  issue_type: IssueReport['type'];
+  description: string;
+  photo_url: string | null;
+  status: 'open' | 'confirmed' | 'resolved';
+  confirm_count: number;
+  upvotes: number;
+  downvotes: number;
+  confidence: number | string;
+  lat: number | string;
+  lng: number | string;
+  created_at: string;
+  expires_at: string;
+}
+
+interface Place {
+  id: string;
+  name: string;
+  category: string | null;
+  lat: number;
+  lng: number;
+  wheelchairAccessible: string | null;
+  hasRamp: boolean | null;
+  hasAccessibleToilet: boolean | null;
+  avgScore: number | null;              // mean review rating, 1–5
+  reviewCount: number;
+  entryAccessible: boolean | null;
+  spaceManeuverable: boolean | null;
+  accessibilityScore: number | null;    // shared 0–10 score
+  scoreBreakdown: ScoreBreakdown | null;
+  photos?: string[];
+}
+
+// A `places` row as returned by /api/places
+interface BackendPlace {
+  id: string;
+  name: string;
+  category: string | null;
+  lat: number | string;
+  lng: number | string;
+  wheelchair_accessible: string | null;
+  has_ramp: boolean | null;
+  has_accessible_toilet: boolean | null;
+  avg_score: number | string | null;
+  review_count: number | null;
+  entry_accessible: boolean | null;
+  space_maneuverable: boolean | null;
+  accessibility_score: number | string | null;
+  score_breakdown: ScoreBreakdown | null;
+  photos?: string[];
+}
+
+// A place near a route, as returned by /api/places/along-route
+interface PlaceAlongRoute extends Place {
+  detour: number | null;        // metres from the route and back along paths, null without an accessible way
+  along: number;                // metres from the start of the route
+}
+
+type AmenityFilter = 'toilet' | 'ramp' | 'pharmacy' | 'bench';
+
+// An accessible place from /api/services/nearby
+interface NearbyService extends Place {
+  distance: number;                     // metres, straight line
+  networkDistance: number | null;       // metres along usable paths; null when out of reach
+  travelTime: number | null;            // seconds for the profile
+}
+
+interface NearbyServicesPage {
+  services: NearbyService[];
+  total: number;
+  facets: { category: string; count: number }[];
+}
+
+type ServiceSort = 'distance' | 'accessibility';
+
+// What the reachability budget measures: minutes of travel, or minutes of
+// effort where slopes, rough surfaces and obstacles count extra
+type ReachBudget = 'time' | 'effort';
+
+// An area reachable from a point, from /api/routes/isochrone
+interface Isochrone {
+  minutes: number;
+  geometry: GeoJSON.Geometry | null;    // null when nothing is reachable
+}
+
+interface PlaceReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  entryAccessible: boolean | null;
+  spaceManeuverable: boolean | null;
+  photoUrl?: string;
+  createdAt: string;
+}
+
+interface NewPlaceReview {
+  rating: number;
+  comment: string;
+  entryAccessible: boolean | null;
+  spaceManeuverable: boolean | null;
+}
+
+interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
 }
 
 interface SavedLocation {
@@ -96,6 +393,37 @@ const ROUTE_COLORS = {
   hazard: '#ef4444' 
 };
 
+// Line styles of the routes on offer, by position; the chosen one is drawn
+// in accessibility colours instead
+const ROUTE_OPTION_STYLES: { color: string; dashArray?: string }[] = [
+  { color: '#2563eb' },
+  { color: '#7c3aed', dashArray: '12 8' },
+  { color: '#0891b2', dashArray: '2 8' },
+  { color: '#db2777', dashArray: '14 6 2 6' },
+];
+
+const ROUTE_VARIANT_LABELS: Record<RouteVariant, string> = {
+  recommended: 'Recommended',
+  shortest: 'Shortest',
+  flattest: 'Flattest',
+  fewestHazards: 'Fewest hazards',
+  leastEffort: 'Least effort',
+};
+
+// Fill of each reachable-area ring, innermost (shortest budget) first
+const ISOCHRONE_COLORS = ['#1d4ed8', '#3b82f6', '#93c5fd'];
+
+// Steepest incline choices for the reachability map, tighter than most
+// profiles allow
+const REACH_INCLINE_LIMITS = [8, 5, 3];
+
+const AMENITY_FILTERS: { id: AmenityFilter; label: string }[] = [
+  { id: 'toilet', label: 'Accessible toilet' },
+  { id: 'ramp', label: 'Ramp' },
+  { id: 'pharmacy', label: 'Pharmacy' },
+  { id: 'bench', label: 'Bench' },
+];
+
 const MAP_STYLES = [
   { id: 'dark', label: 'Dark', icon: Moon },
   { id: 'streets', label: 'Streets', icon: Map },
@@ -111,8 +439,72 @@ const ISSUE_TYPES = [
   { value: 'other' as const, label: 'Other', icon: AlertCircle },
 ];
 
-const STORAGE_KEY = 'wheelchair-nav-reports';
+const API_BASE = '/api';
+
+const LEGACY_REPORTS_KEY = 'wheelchair-nav-reports';
+const REPORT_OUTBOX_KEY = 'wheelchair-nav-report-outbox';
+const CLIENT_ID_KEY = 'wheelchair-nav-client-id';
 const SAVED_LOCATIONS_KEY = 'wheelchair-nav-locations';
+const PREFERENCES_KEY = 'wheelchair-nav-preferences';
+const VOICE_SETTINGS_KEY = 'wheelchair-nav-voice';
+const CHAIR_SETTINGS_KEY = 'wheelchair-nav-chair';
+
+const DEFAULT_PREFERENCES: RoutePreferences = {
+  avoidSteepSlopes: false,
+  avoidNarrowAlleys: false,
+  avoidUnpaved: false,
+  preferSidewalks: false,
+};
+
+const PREFERENCE_OPTIONS: { key: RoutePreferenceKey; label: string }[] = [
+  { key: 'avoidSteepSlopes', label: 'Avoid slopes above 6%' },
+  { key: 'avoidNarrowAlleys', label: 'Avoid narrow alleys' },
+  { key: 'avoidUnpaved', label: 'Avoid unpaved roads' },
+  { key: 'preferSidewalks', label: 'Prefer sidewalks' },
+];
+
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: false,
+  verbosity: 'standard',
+  language: 'en',
+  events: { turns: true, hazards: true, offRoute: true, arrival: true },
+};
+
+const VOICE_VERBOSITY_OPTIONS: { value: VoiceVerbosity; label: string; hint: string }[] = [
+  { value: 'brief', label: 'Brief', hint: 'Only the turn itself' },
+  { value: 'standard', label: 'Standard', hint: 'Turns announced ahead, with street names' },
+  { value: 'detailed', label: 'Detailed', hint: 'Also slopes, surfaces and curbs on the next stretch' },
+];
+
+const CHAIR_TYPE_OPTIONS: { value: ChairSettings['type']; label: string }[] = [
+  { value: 'manual', label: 'Manual chair' },
+  { value: 'powered', label: 'Powered chair' },
+];
+
+// Effort limits offered in the settings: up to a rating for manual chairs,
+// up to a share of the battery for powered ones
+const PUSH_LIMIT_OPTIONS = EFFORT_RATINGS.filter(r => Number.isFinite(r.maxKj))
+  .map(r => ({ value: r.maxKj, label: `Up to ${r.rating}` }));
+const BATTERY_LIMIT_OPTIONS = [10, 25, 50].map(percent => ({ value: percent, label: `${percent}% of battery` }));
+
+const VOICE_LANGUAGE_OPTIONS: { value: VoiceLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'ne', label: 'नेपाली (Nepali)' },
+];
+
+const VOICE_EVENT_OPTIONS: { key: VoiceEvent; label: string }[] = [
+  { key: 'turns', label: 'Turns' },
+  { key: 'hazards', label: 'Hazards ahead' },
+  { key: 'offRoute', label: 'Leaving the route' },
+  { key: 'arrival', label: 'Arrival' },
+];
+
+// Hazards and reports closer than this to a segment count against it
+const HAZARD_BUFFER_M = 25;
+
+const REPORT_REFRESH_MS = 60_000;
+
+const UNPAVED_SURFACES = ['unpaved', 'gravel', 'fine_gravel', 'compacted', 'ground', 'dirt', 'grass', 'sand'];
 
 const KATHMANDU_CENTER = { lat: 27.7172, lng: 85.324 };
 
@@ -120,108 +512,85 @@ const KATHMANDU_CENTER = { lat: 27.7172, lng: 85.324 };
 // HAZARD FETCHING FUNCTIONS
 // ═══════════════════════════════════════════════════════════
 
-async function fetchHazards(lat = 27.7172, lng = 85.324, radius = 3000): Promise<HazardPoint[]> {
+// Matches the backend's bbox limit; larger viewports keep the hazards they have
+const MAX_HAZARD_SPAN_DEG = 0.5;
+
+function bboxParam(bounds: MapBounds): string {
+  return [bounds.west, bounds.south, bounds.east, bounds.north].map(n => n.toFixed(5)).join(',');
+}
+
+// Hazards in the viewport from the backend. Falls back to Overpass when the
+// backend is unreachable; `source` is null when neither answered.
+async function fetchHazards(bounds: MapBounds): Promise<{ hazards: HazardPoint[]; source: HazardSource | null }> {
   try {
-    const query = `
-      [out:json][timeout:15];
-      (
-        way["highway"="steps"](around:${radius},${lat},${lng});
-        way["highway"="construction"](around:${radius},${lat},${lng});
-        way["surface"="unpaved"](around:${radius},${lat},${lng});
-        way["surface"="gravel"](around:${radius},${lat},${lng});
-        way["smoothness"="bad"](around:${radius},${lat},${lng});
-        way["smoothness"="very_bad"](around:${radius},${lat},${lng});
-        way["highway"="living_street"](around:${radius},${lat},${lng});
-        way["highway"="service"]["width"](around:${radius},${lat},${lng});
-      );
-      out center;
-    `;
-    
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      body: `data=${encodeURIComponent(query)}`,
-      headers: { 
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'WheelchairNavKTM/1.0'
-      },
-    });
-    
-    if (!response.ok) throw new Error('Overpass API error');
-    
+    const response = await fetch(`${API_BASE}/hazards?bbox=${bboxParam(bounds)}`);
+    if (!response.ok) throw new Error(`Hazards error ${response.status}`);
     const data = await response.json();
-    return parseOverpassData(data);
+    const hazards: HazardPoint[] = data.hazards.map((h: HazardPoint) => ({ ...h, source: 'database' }));
+    return { hazards, source: 'database' };
   } catch (error) {
-    console.warn('Overpass API unavailable, using mock hazards:', error);
-    return getMockHazards(lat, lng);
+    console.warn('Backend hazards unavailable, querying Overpass:', error);
+  }
+  
+  try {
+    const hazards = await fetchOverpassHazards(bounds);
+    return { hazards: hazards.map(h => ({ ...h, source: 'overpass' })), source: 'overpass' };
+  } catch (error) {
+    console.warn('Overpass API unavailable:', error);
+    return { hazards: [], source: null };
   }
 }
 
-function parseOverpassData(data: any): HazardPoint[] {
+async function fetchOverpassHazards(bounds: MapBounds): Promise<HazardPoint[]> {
+  const bbox = `${bounds.south},${bounds.west},${bounds.north},${bounds.east}`;
+  const query = `
+    [out:json][timeout:15];
+    (
+      way["highway"="steps"](${bbox});
+      way["highway"="construction"](${bbox});
+      way["highway"]["wheelchair"="no"](${bbox});
+      way["highway"]["surface"~"^(unpaved|gravel|dirt|ground|sand|grass|mud)$"](${bbox});
+      way["highway"]["smoothness"~"^(bad|very_bad|horrible|very_horrible|impassable)$"](${bbox});
+      way["highway"~"^(footway|path|pedestrian)$"]["incline"](${bbox});
+      way["highway"~"^(footway|path|pedestrian)$"]["width"](${bbox});
+      way["highway"="living_street"](${bbox});
+      way["highway"="service"]["width"](${bbox});
+      node["kerb"~"^(raised|regular|yes)$"](${bbox});
+    );
+    out center;
+  `;
+  
+  const response = await fetch('https://overpass-api.de/api/interpreter', {
+    method: 'POST',
+    body: `data=${encodeURIComponent(query)}`,
+    headers: { 
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': 'WheelchairNavKTM/1.0'
+    },
+  });
+  
+  if (!response.ok) throw new Error('Overpass API error');
+  
+  const data = await response.json();
+  return parseOverpassData(data);
+}
+
+function parseOverpassData(data: { elements?: OverpassElement[] }): HazardPoint[] {
   const points: HazardPoint[] = [];
   
   for (const element of data.elements || []) {
-    const lat = element.center?.lat || element.lat;
-    const lng = element.center?.lon || element.lon;
-    
-    if (!lat || !lng) continue;
-    
-    const tags = element.tags || {};
-    let type: 'hazard' | 'caution' = 'caution';
-    let category = 'Unknown';
-    let description = '';
+    const lat = element.center?.lat ?? element.lat;
+    const lng = element.center?.lon ?? element.lon;
     
-    if (tags.highway === 'steps') { 
-      type = 'hazard'; 
-      category = 'Stairs'; 
-      description = 'Stairs detected — not wheelchair accessible'; 
-    }
-    else if (tags.highway === 'construction') { 
-      type = 'hazard'; 
-      category = 'Construction'; 
-      description = 'Road under construction'; 
-    }
-    else if (['unpaved', 'gravel'].includes(tags.surface)) { 
-      type = 'hazard'; 
-      category = 'Unpaved'; 
-      description = `Surface: ${tags.surface}`; 
-    }
-    else if (['bad', 'very_bad'].includes(tags.smoothness)) { 
-      type = 'hazard'; 
-      category = 'Poor Surface'; 
-      description = `Smoothness: ${tags.smoothness}`; 
-    }
-    else if (tags.highway === 'living_street') { 
-      type = 'caution'; 
-      category = 'Narrow Alley'; 
-      description = 'Narrow living street — limited wheelchair access'; 
-    }
-    else if (tags.highway === 'service') { 
-      type = 'caution'; 
-      category = 'Service Road'; 
-      description = 'Service road — may be narrow'; 
-    }
+    if (lat === undefined || lng === undefined) continue;
     
-    points.push({ lat, lng, type, category, description });
+    const hazard = hazardFromTags(element.tags || {});
+    if (hazard) points.push({ lat, lng, ...hazard });
   }
   
   return points;
 }
 
-function getMockHazards(centerLat: number, centerLng: number): HazardPoint[] {
-  return [
-    { lat: centerLat + 0.003, lng: centerLng + 0.002, type: 'hazard', category: 'Stairs', description: 'Steep stairs near temple area' },
-    { lat: centerLat - 0.004, lng: centerLng + 0.005, type: 'hazard', category: 'Construction', description: 'Road construction zone' },
-    { lat: centerLat + 0.006, lng: centerLng - 0.003, type: 'hazard', category: 'Unpaved', description: 'Gravel road — poor surface' },
-    { lat: centerLat - 0.002, lng: centerLng - 0.004, type: 'hazard', category: 'Steep Incline', description: 'Incline > 10% — avoid' },
-    { lat: centerLat + 0.001, lng: centerLng + 0.007, type: 'hazard', category: 'Pothole', description: 'Large potholes reported' },
-    { lat: centerLat - 0.005, lng: centerLng + 0.001, type: 'caution', category: 'Narrow Alley', description: 'Narrow alley — width < 2m' },
-    { lat: centerLat + 0.004, lng: centerLng - 0.006, type: 'caution', category: 'Narrow Alley', description: 'Limited sidewalk width' },
-    { lat: centerLat - 0.001, lng: centerLng + 0.004, type: 'caution', category: 'Poor Sidewalk', description: 'Broken sidewalk surface' },
-    { lat: centerLat + 0.005, lng: centerLng + 0.003, type: 'caution', category: 'Service Road', description: 'Service road — limited access' },
-    { lat: centerLat - 0.003, lng: centerLng - 0.002, type: 'caution', category: 'Semi-accessible', description: 'Partial wheelchair access only' },
-  ];
-}
-
 // ═══════════════════════════════════════════════════════════
 // UTILITY FUNCTIONS: Search with better error handling
 // ═══════════════════════════════════════════════════════════
@@ -231,7 +600,7 @@ async function searchPlaces(query: string): Promise<SearchResult[]> {
   
   try {
     // Try with Kathmandu bounding box first
-    const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=8&addressdetails=1&countrycodes=np&viewbox=85.2,27.8,85.45,27.6&bounded=1`;
+    const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=8&addressdetails=1&extratags=1&countrycodes=np&viewbox=85.2,27.8,85.45,27.6&bounded=1`;
     
     const response = await fetch(url, { 
       headers: { 
@@ -246,7 +615,7 @@ async function searchPlaces(query: string): Promise<SearchResult[]> {
     
     if (data.length === 0) {
       // Fallback: search without bounding box
-      const fallbackUrl = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query + ' Kathmandu Nepal')}&limit=8&addressdetails=1`;
+      const fallbackUrl = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query + ' Kathmandu Nepal')}&limit=8&addressdetails=1&extratags=1`;
       const fallbackResponse = await fetch(fallbackUrl, { 
         headers: { 'User-Agent': 'WheelchairNavKTM/1.0' } 
       });
@@ -271,6 +640,8 @@ function parseNominatimResults(data: any[]): SearchResult[] {
     if (item.address?.amenity) name = item.address.amenity;
     if (item.address?.tourism) name = item.address.tourism;
     
+    const score = calculateAccessibilityScore(item);
+    
     return {
       id: item.place_id?.toString() || Math.random().toString(),
       name: name,
@@ -278,28 +649,25 @@ function parseNominatimResults(data: any[]): SearchResult[] {
       lat: parseFloat(item.lat),
       lng: parseFloat(item.lon),
       type: item.type || 'place',
-      accessibilityScore: calculateAccessibilityScore(item),
+      accessibilityScore: score.score,
+      scoreRated: score.rated,
+      scoreBreakdown: score.components,
     };
   });
 }
 
-function calculateAccessibilityScore(item: any): number {
-  const type = item.type || '';
-  const category = item.category || '';
-  
-  // Higher scores for typically accessible places
-  if (['hospital', 'clinic'].includes(type)) return 8;
-  if (['hotel', 'hostel'].includes(type)) return 7;
-  if (['mall', 'supermarket', 'department_store'].includes(type)) return 8;
-  if (['airport', 'bus_station', 'train_station'].includes(type)) return 7;
-  if (['restaurant', 'cafe', 'fast_food'].includes(type)) return 6;
-  if (['bank', 'post_office', 'library'].includes(type)) return 7;
-  if (['school', 'university', 'college'].includes(type)) return 6;
-  if (['place_of_worship', 'temple', 'church'].includes(type)) return 4;
-  if (['historic', 'attraction', 'viewpoint'].includes(type)) return 3;
-  
-  // Default random score for other places
-  return Math.floor(Math.random() * 5) + 3;
+// "entrance 9, kerb 2" – the known components of a score, for tooltips
+function describeBreakdown(breakdown?: ScoreBreakdown): string | undefined {
+  if (!breakdown) return undefined;
+  return Object.entries(breakdown)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `${name} ${value}`)
+    .join(', ') || undefined;
+}
+
+// Scores a Nominatim result from its OSM tags (requested with extratags=1)
+function calculateAccessibilityScore(item: any): AccessibilityScore {
+  return scoreAccessibility(scoreInputFromTags(item.extratags ?? {}));
 }
 
 function getMockSearchResults(query: string): SearchResult[] {
@@ -364,6 +732,24 @@ async function getCurrentPosition(): Promise<{ lat: number; lng: number }> {
   });
 }
 
+// Follows the device position until the returned function is called
+function watchPosition(
+  onFix: (position: { lat: number; lng: number }, accuracy: number) => void,
+  onError: (error: GeolocationPositionError) => void
+): () => void {
+  if (!navigator.geolocation) {
+    onError({ code: 2, message: 'Geolocation not supported' } as GeolocationPositionError);
+    return () => {};
+  }
+  
+  const id = navigator.geolocation.watchPosition(
+    (position) => onFix({ lat: position.coords.latitude, lng: position.coords.longitude }, position.coords.accuracy),
+    onError,
+    { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+  );
+  return () => navigator.geolocation.clearWatch(id);
+}
+
 async function reverseGeocode(lat: number, lng: number): Promise<string> {
   try {
     const url = `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`;
@@ -382,25 +768,569 @@ async function reverseGeocode(lat: number, lng: number): Promise<string> {
 // UTILITY FUNCTIONS: Reports
 // ═══════════════════════════════════════════════════════════
 
-function getReports(): IssueReport[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? JSON.parse(raw) : [];
-  } catch {
-    return [];
+// Anonymous per-browser id, sent as the reporter of new reports and the
+// voter on existing ones so that reputation and votes can be tracked
+function getClientId(): string {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+function getReportOutbox(): OutboxReport[] {
+  try {
+    const raw = localStorage.getItem(REPORT_OUTBOX_KEY);
+    const outbox: OutboxReport[] = raw ? JSON.parse(raw) : [];
+    
+    // Reports saved before they were sent to the server go out with the outbox
+    const legacy = localStorage.getItem(LEGACY_REPORTS_KEY);
+    if (legacy) {
+      outbox.push(...JSON.parse(legacy));
+      localStorage.setItem(REPORT_OUTBOX_KEY, JSON.stringify(outbox));
+      localStorage.removeItem(LEGACY_REPORTS_KEY);
+    }
+    
+    return outbox;
+  } catch {
+    return [];
+  }
+}
+
+function withoutPhoto(entry: OutboxReport): IssueReport {
+  const report = { ...entry };
+  delete report.photo;
+  return report;
+}
+
+function saveReportOutbox(outbox: OutboxReport[]) {
+  try {
+    localStorage.setItem(REPORT_OUTBOX_KEY, JSON.stringify(outbox));
+  } catch (error) {
+    // Usually a photo too big for localStorage – keep the report without it
+    console.warn('Report outbox full, dropping photos:', error);
+    localStorage.setItem(REPORT_OUTBOX_KEY, JSON.stringify(outbox.map(withoutPhoto)));
+  }
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function parseBackendReport(row: BackendReport): IssueReport {
+  return {
+    id: row.id,
+    lat: Number(row.lat),
+    lng: Number(row.lng),
+    type: row.issue_type,
+    description: row.description,
+    timestamp: row.created_at,
+    photoUrl: row.photo_url ?? undefined,
+    status: row.status,
+    confirmCount: row.confirm_count,
+    expiresAt: row.expires_at,
+    upvotes: row.upvotes,
+    downvotes: row.downvotes,
+    confidence: Number(row.confidence),
+  };
+}
+
+async function postReport(report: OutboxReport, photo?: Blob | null): Promise<IssueReport> {
+  const form = new FormData();
+  form.append('client_id', report.id);
+  form.append('user_id', getClientId());
+  form.append('issue_type', report.type);
+  form.append('description', report.description);
+  form.append('lat', String(report.lat));
+  form.append('lng', String(report.lng));
+  if (photo) form.append('photo', photo);
+  
+  const response = await fetch(`${API_BASE}/reports`, { method: 'POST', body: form });
+  if (!response.ok) throw new Error(`Report upload error ${response.status}`);
+  
+  const data = await response.json();
+  return parseBackendReport(data.report);
+}
+
+// Sends a report to the backend. When that fails the report is kept in the
+// local outbox and returned with `pending: true`.
+async function submitReport(
+  report: Omit<IssueReport, 'id' | 'timestamp'>,
+  photo?: File | null
+): Promise<IssueReport> {
+  const entry: OutboxReport = {
+    ...report,
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+  };
+  
+  try {
+    return await postReport(entry, photo);
+  } catch (error) {
+    console.warn('Report upload failed, saving to outbox:', error);
+    if (photo) entry.photo = await readAsDataUrl(photo).catch(() => undefined);
+    saveReportOutbox([...getReportOutbox(), entry]);
+    return { ...withoutPhoto(entry), pending: true };
+  }
+}
+
+// Retries every report in the outbox. Resolves to the number still pending.
+async function flushReportOutbox(): Promise<number> {
+  const outbox = getReportOutbox();
+  if (outbox.length === 0) return 0;
+  
+  const sent = new Set<string>();
+  for (const entry of outbox) {
+    try {
+      const photo = entry.photo ? await (await fetch(entry.photo)).blob() : null;
+      await postReport(entry, photo);
+      sent.add(entry.id);
+    } catch {
+      // Stays queued for the next flush
+    }
+  }
+  
+  // Reports may have been queued while sending; keep everything not sent
+  const remaining = getReportOutbox().filter(entry => !sent.has(entry.id));
+  saveReportOutbox(remaining);
+  return remaining.length;
+}
+
+function getPendingReports(): IssueReport[] {
+  return getReportOutbox().map(entry => ({ ...withoutPhoto(entry), pending: true }));
+}
+
+async function fetchReports(bounds: MapBounds): Promise<IssueReport[]> {
+  try {
+    const response = await fetch(`${API_BASE}/reports?bbox=${bboxParam(bounds)}`);
+    if (!response.ok) throw new Error(`Reports error ${response.status}`);
+    const data = await response.json();
+    return data.reports.map(parseBackendReport);
+  } catch (error) {
+    console.warn('Could not load reports:', error);
+    return [];
+  }
+}
+
+// "Still there" / "Fixed" / votes on someone's report. Resolves to the
+// updated report, or null when it is gone (already resolved or expired).
+async function sendReportAction(id: string, action: ReportAction): Promise<IssueReport | null> {
+  const isVote = action === 'upvote' || action === 'downvote';
+  const response = await fetch(`${API_BASE}/reports/${id}/${isVote ? 'vote' : action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(isVote
+      ? { voter_id: getClientId(), vote: action === 'upvote' ? 1 : -1 }
+      : { voter_id: getClientId() }),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Report ${action} error ${response.status}`);
+  const data = await response.json();
+  return parseBackendReport(data.report);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Places & Reviews
+// ═══════════════════════════════════════════════════════════
+
+const toNumberOrNull = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? null : Number(value);
+
+function parseBackendPlace(row: BackendPlace): Place {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    lat: Number(row.lat),
+    lng: Number(row.lng),
+    wheelchairAccessible: row.wheelchair_accessible,
+    hasRamp: row.has_ramp,
+    hasAccessibleToilet: row.has_accessible_toilet,
+    avgScore: toNumberOrNull(row.avg_score),
+    reviewCount: row.review_count ?? 0,
+    entryAccessible: row.entry_accessible,
+    spaceManeuverable: row.space_maneuverable,
+    accessibilityScore: toNumberOrNull(row.accessibility_score),
+    scoreBreakdown: row.score_breakdown,
+    photos: row.photos,
+  };
+}
+
+async function fetchPlaces(bounds: MapBounds): Promise<Place[]> {
+  try {
+    const response = await fetch(`${API_BASE}/places?bbox=${bboxParam(bounds)}`);
+    if (!response.ok) throw new Error(`Places error ${response.status}`);
+    const rows: BackendPlace[] = await response.json();
+    return rows.map(parseBackendPlace);
+  } catch (error) {
+    console.warn('Could not load places:', error);
+    return [];
+  }
+}
+
+async function fetchPlace(id: string): Promise<Place> {
+  const response = await fetch(`${API_BASE}/places/${id}`);
+  if (!response.ok) throw new Error(`Place error ${response.status}`);
+  return parseBackendPlace(await response.json());
+}
+
+async function fetchPlaceReviews(id: string): Promise<PlaceReview[]> {
+  const response = await fetch(`${API_BASE}/places/${id}/reviews`);
+  if (!response.ok) throw new Error(`Reviews error ${response.status}`);
+  const data = await response.json();
+  return data.reviews.map((r: { id: string; rating: number; comment: string | null; entry_accessible: boolean | null; space_maneuverable: boolean | null; photo_url: string | null; created_at: string }) => ({
+    id: r.id,
+    rating: r.rating,
+    comment: r.comment,
+    entryAccessible: r.entry_accessible,
+    spaceManeuverable: r.space_maneuverable,
+    photoUrl: r.photo_url ?? undefined,
+    createdAt: r.created_at,
+  }));
+}
+
+// Route coordinates are thinned to at most this many points for the query
+const MAX_CORRIDOR_POINTS = 200;
+const DEFAULT_CORRIDOR_M = 200;
+
+// Places within `bufferM` of the route matching any of the filters, smallest
+// detour first
+async function fetchPlacesAlongRoute(
+  route: RouteResult,
+  filters: AmenityFilter[],
+  bufferM = DEFAULT_CORRIDOR_M
+): Promise<PlaceAlongRoute[]> {
+  const coords = routeCoordinates(route);
+  const step = Math.ceil(coords.length / MAX_CORRIDOR_POINTS);
+  const line = coords
+    .filter((_, i) => i % step === 0 || i === coords.length - 1)
+    .map(([lat, lng]) => `${lng.toFixed(5)},${lat.toFixed(5)}`)
+    .join(';');
+  
+  const params = new URLSearchParams({ line, buffer: String(bufferM) });
+  if (route.profile) params.set('profile', route.profile);
+  if (filters.includes('toilet')) params.set('toilet', 'true');
+  if (filters.includes('ramp')) params.set('ramp', 'true');
+  const categories = filters.filter(f => f !== 'toilet' && f !== 'ramp');
+  if (categories.length > 0) params.set('category', categories.join(','));
+  
+  try {
+    const response = await fetch(`${API_BASE}/places/along-route?${params}`);
+    if (!response.ok) throw new Error(`Places along route error ${response.status}`);
+    const rows: (BackendPlace & { detour_m: number | null; distance_along: number })[] = await response.json();
+    return rows.map(row => ({
+      ...parseBackendPlace(row),
+      detour: toNumberOrNull(row.detour_m),
+      along: Number(row.distance_along),
+    }));
+  } catch (error) {
+    console.warn('Could not load places along the route:', error);
+    return [];
+  }
+}
+
+// One page of accessible places near `origin`, measured along the paths the
+// profile can use
+async function fetchNearbyServices(
+  origin: { lat: number; lng: number },
+  profileId: MobilityProfile['id'],
+  { categories, sort, offset }: { categories: string[]; sort: ServiceSort; offset: number }
+): Promise<NearbyServicesPage> {
+  const params = new URLSearchParams({
+    lat: origin.lat.toFixed(6),
+    lng: origin.lng.toFixed(6),
+    profile: profileId,
+    sort,
+    offset: String(offset),
+  });
+  if (categories.length > 0) params.set('category', categories.join(','));
+  
+  const response = await fetch(`${API_BASE}/services/nearby?${params}`);
+  if (!response.ok) throw new Error(`Nearby services error ${response.status}`);
+  const data: {
+    services: (BackendPlace & { distance_m: number; network_distance_m: number | null; travel_time_s: number | null })[];
+    total: number;
+    facets: { category: string; count: number }[];
+  } = await response.json();
+  
+  return {
+    services: data.services.map(row => ({
+      ...parseBackendPlace(row),
+      distance: row.distance_m,
+      networkDistance: row.network_distance_m,
+      travelTime: row.travel_time_s,
+    })),
+    total: data.total,
+    facets: data.facets,
+  };
+}
+
+const ISOCHRONE_MINUTES = [5, 10, 15];
+
+// Areas reachable from `origin` within each of ISOCHRONE_MINUTES, smallest
+// first. `maxIncline` can only tighten the profile's own limit.
+async function fetchIsochrones(
+  origin: { lat: number; lng: number },
+  profileId: MobilityProfile['id'],
+  preferences: RoutePreferences,
+  { budget, maxIncline, chairType }: { budget: ReachBudget; maxIncline: number | null; chairType: ChairSettings['type'] }
+): Promise<Isochrone[]> {
+  const response = await fetch(`${API_BASE}/routes/isochrone`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: origin,
+      profile: profileId,
+      preferences,
+      minutes: ISOCHRONE_MINUTES,
+      budget,
+      maxIncline,
+      chair: chairType,
+    }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Isochrone error ${response.status}`);
+  }
+  const data: { isochrones: Isochrone[] } = await response.json();
+  return data.isochrones;
+}
+
+// Throws with the backend's validation message when the review is rejected
+async function submitPlaceReview(id: string, review: NewPlaceReview, photo?: File | null): Promise<void> {
+  const form = new FormData();
+  form.append('rating', String(review.rating));
+  form.append('comment', review.comment);
+  form.append('entry_accessible', review.entryAccessible === null ? '' : String(review.entryAccessible));
+  form.append('space_maneuverable', review.spaceManeuverable === null ? '' : String(review.spaceManeuverable));
+  if (photo) form.append('photo', photo);
+  
+  const response = await fetch(`${API_BASE}/places/${id}/reviews`, { method: 'POST', body: form });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Review error ${response.status}`);
+  }
+}
+
+function placeScoreColor(score: number | null): string {
+  if (score === null) return '#94a3b8';
+  if (score >= 7) return '#22c55e';
+  if (score >= 4) return '#f59e0b';
+  return '#ef4444';
+}
+
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Voice Guidance
+// ═══════════════════════════════════════════════════════════
+
+function getVoiceSettings(): VoiceSettings {
+  try {
+    const raw = localStorage.getItem(VOICE_SETTINGS_KEY);
+    if (!raw) return DEFAULT_VOICE_SETTINGS;
+    const stored = JSON.parse(raw);
+    return { ...DEFAULT_VOICE_SETTINGS, ...stored, events: { ...DEFAULT_VOICE_SETTINGS.events, ...stored.events } };
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+function saveVoiceSettings(settings: VoiceSettings): void {
+  localStorage.setItem(VOICE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const SPEECH_LANGS: Record<VoiceLanguage, string> = { en: 'en-US', ne: 'ne-NP' };
+
+function speak(text: string, language: VoiceLanguage): void {
+  if (typeof window === 'undefined' || !window.speechSynthesis) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = SPEECH_LANGS[language];
+  const voices = window.speechSynthesis.getVoices();
+  // Few systems ship a Nepali voice; a Hindi one reads Devanagari well enough
+  utterance.voice = voices.find(v => v.lang.startsWith(language))
+    ?? (language === 'ne' ? voices.find(v => v.lang.startsWith('hi')) : undefined)
+    ?? null;
+  window.speechSynthesis.speak(utterance);
+}
+
+function stopSpeaking(): void {
+  if (typeof window !== 'undefined') window.speechSynthesis?.cancel();
+}
+
+// Turns are announced ahead (standard and detailed) and again when due
+const ANNOUNCE_AHEAD_M = 60;
+const ANNOUNCE_NOW_M = 15;
+// Hazards and cautions on a segment starting within this are announced
+const HAZARD_AHEAD_M = 40;
+
+const NEPALI_MANEUVERS: Record<Maneuver, string> = {
+  depart: 'यात्रा सुरु गर्नुहोस्',
+  straight: 'सिधा जानुहोस्',
+  'slight-left': 'अलिकति बायाँ लाग्नुहोस्',
+  'slight-right': 'अलिकति दायाँ लाग्नुहोस्',
+  left: 'बायाँ मोड्नुहोस्',
+  right: 'दायाँ मोड्नुहोस्',
+  'sharp-left': 'एकदमै बायाँ मोड्नुहोस्',
+  'sharp-right': 'एकदमै दायाँ मोड्नुहोस्',
+  'u-turn': 'पछाडि फर्कनुहोस्',
+  roundabout: 'गोलचक्कर पार गर्नुहोस्',
+  arrive: 'तपाईं आफ्नो गन्तव्यमा पुग्नुभयो',
+};
+
+// Spoken names for classifier reason codes, in both languages
+const HAZARD_PHRASES: Record<string, Record<VoiceLanguage, string>> = {
+  incline_too_steep: { en: 'Steep slope', ne: 'ठाडो भिरालो' },
+  incline_steep: { en: 'Slope', ne: 'भिरालो' },
+  too_narrow: { en: 'Very narrow passage', ne: 'धेरै साँघुरो बाटो' },
+  narrow: { en: 'Narrow passage', ne: 'साँघुरो बाटो' },
+  surface_unusable: { en: 'Unusable surface', ne: 'चल्न नसकिने सतह' },
+  surface_rough: { en: 'Rough surface', ne: 'खस्रो सतह' },
+  smoothness_very_poor: { en: 'Very bumpy surface', ne: 'धेरै उबडखाबड सतह' },
+  smoothness_poor: { en: 'Bumpy surface', ne: 'उबडखाबड सतह' },
+  no_curb_cuts: { en: 'Raised curb', ne: 'अग्लो कर्ब' },
+  steps: { en: 'Steps', ne: 'भर्याङ' },
+  hazard_nearby: { en: 'Hazard', ne: 'खतरा' },
+  caution_nearby: { en: 'Caution', ne: 'सावधानी' },
+  active_report: { en: 'Reported obstacle', ne: 'रिपोर्ट गरिएको अवरोध' },
+};
+
+const spokenMetres = (metres: number) => Math.max(10, Math.round(metres / 10) * 10);
+
+// "In 60 metres, turn left onto Durbar Marg" / "६० मिटरपछि दरबार मार्गमा बायाँ मोड्नुहोस्"
+function spokenInstruction(
+  instruction: RouteInstruction,
+  settings: VoiceSettings,
+  distance?: number
+): string {
+  const street = settings.verbosity === 'brief' ? null : instruction.streetName;
+  let text: string;
+  if (settings.language === 'ne') {
+    const where = street ? `${street}मा ` : '';
+    text = `${distance !== undefined ? `${spokenMetres(distance)} मिटरपछि ` : ''}${where}${NEPALI_MANEUVERS[instruction.maneuver]}`;
+  } else {
+    // Arrivals keep their text, which names the stop on multi-stop trips
+    const phrase = instruction.maneuver === 'arrive' ? instruction.text : describeManeuver(instruction.maneuver, street);
+    text = distance !== undefined
+      ? `In ${spokenMetres(distance)} metres, ${phrase.charAt(0).toLowerCase()}${phrase.slice(1)}`
+      : phrase;
+  }
+  // Notes are worded in English by the instruction builder
+  if (settings.verbosity === 'detailed' && settings.language === 'en' && instruction.notes.length > 0) {
+    text += `. ${instruction.notes.join('. ')}`;
+  }
+  return text;
+}
+
+// "Steep slope ahead in 30 metres" / "३० मिटर अगाडि ठाडो भिरालो"
+function spokenHazard(reason: ClassificationReason, distance: number, settings: VoiceSettings): string {
+  const phrase = HAZARD_PHRASES[reason.code]?.[settings.language] ?? HAZARD_PHRASES.caution_nearby[settings.language];
+  if (settings.language === 'ne') return `${spokenMetres(distance)} मिटर अगाडि ${phrase}`;
+  const detail = settings.verbosity === 'detailed' ? `. ${reason.message}` : '';
+  return `${phrase} ahead in ${spokenMetres(distance)} metres${detail}`;
+}
+
+// Where each segment starts, in metres along the route (router's figures)
+function segmentStartDistances(route: RouteResult): number[] {
+  const lengths = route.segments.map(seg => polylineLength(seg.coordinates));
+  const scale = route.totalDistance / (lengths.reduce((a, b) => a + b, 0) || 1);
+  let offset = 0;
+  return lengths.map(length => {
+    const start = offset;
+    offset += length * scale;
+    return start;
+  });
+}
+
+interface VoiceState {
+  route: RouteResult;
+  segmentStarts: number[];
+  spoken: Set<string>;          // announcements already made on this route
+}
+
+// What to say for a new navigation fix. Each announcement is made once per
+// route; a reroute starts over with the new route.
+function navigationAnnouncements(
+  progress: NavigationProgress,
+  state: VoiceState,
+  settings: VoiceSettings
+): string[] {
+  const { route, segmentStarts, spoken } = state;
+  const texts: string[] = [];
+  const once = (key: string, text: () => string) => {
+    if (spoken.has(key)) return;
+    spoken.add(key);
+    texts.push(text());
+  };
+  
+  if (progress.arrived) {
+    if (settings.events.arrival) once('arrive', () => settings.language === 'ne' ? NEPALI_MANEUVERS.arrive : describeManeuver('arrive'));
+    return texts;
+  }
+  
+  if (progress.shouldReroute) {
+    if (settings.events.offRoute) {
+      once('off-route', () => settings.language === 'ne'
+        ? 'तपाईं मार्गबाट बाहिर हुनुहुन्छ। नयाँ मार्ग खोज्दै।'
+        : 'You are off the route. Finding a new route.');
+    }
+    return texts;
+  }
+  if (progress.offRoute) return texts;
+  
+  if (settings.events.turns) {
+    const first = route.instructions?.[0];
+    if (first) once('depart', () => spokenInstruction(first, settings));
+    
+    const next = progress.nextInstruction;
+    if (next && next.maneuver !== 'arrive') {
+      const key = `${next.startDistance}`;
+      if (progress.distanceToNext <= ANNOUNCE_NOW_M) {
+        spoken.add(`ahead-${key}`);
+        once(`now-${key}`, () => spokenInstruction(next, settings));
+      } else if (progress.distanceToNext <= ANNOUNCE_AHEAD_M && settings.verbosity !== 'brief') {
+        once(`ahead-${key}`, () => spokenInstruction(next, settings, progress.distanceToNext));
+      }
+    }
+  }
+  
+  if (settings.events.hazards) {
+    route.segments.forEach((seg, i) => {
+      const ahead = segmentStarts[i] - progress.distanceAlong;
+      if (seg.accessibility === 'safe' || ahead < 0 || ahead > HAZARD_AHEAD_M) return;
+      // Missing data is not worth an alert
+      const reason = seg.reasons?.find(r => r.severity === seg.accessibility && r.code !== 'unverified');
+      if (reason) once(`hazard-${i}`, () => spokenHazard(reason, ahead, settings));
+    });
   }
+  
+  return texts;
 }
 
-function saveReport(report: Omit<IssueReport, 'id' | 'timestamp'>): IssueReport {
-  const newReport: IssueReport = {
-    ...report,
-    id: Math.random().toString(36).substr(2, 9),
-    timestamp: new Date().toISOString(),
-  };
-  const reports = getReports();
-  reports.push(newReport);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(reports));
-  return newReport;
+// A spoken overview of the whole route, for the route panel's "Listen" button
+function describeRouteAloud(route: RouteResult, settings: VoiceSettings): string {
+  const km = (route.totalDistance / 1000).toFixed(1);
+  const minutes = Math.ceil(route.estimatedTime / 60);
+  const cautions = route.segments.filter(s => s.accessibility !== 'safe').length;
+  const steps = (route.instructions ?? []).map(i => {
+    const text = spokenInstruction(i, settings);
+    if (i.distance === 0) return text;
+    return settings.language === 'ne'
+      ? `${text}, अनि ${spokenMetres(i.distance)} मिटर जानुहोस्`
+      : `${text}. Continue for ${spokenMetres(i.distance)} metres`;
+  });
+  const summary = settings.language === 'ne'
+    ? `${km} किलोमिटरको मार्ग, करिब ${minutes} मिनेट। ${cautions} ठाउँमा सावधानी चाहिन्छ।`
+    : `Route of ${km} kilometres, about ${minutes} minutes. ${cautions} ${cautions === 1 ? 'section needs' : 'sections need'} caution.`;
+  return [summary, ...steps].join(settings.language === 'ne' ? '। ' : '. ');
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -432,13 +1362,192 @@ function deleteLocation(id: string): void {
   localStorage.setItem(SAVED_LOCATIONS_KEY, JSON.stringify(locations));
 }
 
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Route Preferences
+// ═══════════════════════════════════════════════════════════
+
+function getRoutePreferences(): RoutePreferences {
+  try {
+    const raw = localStorage.getItem(PREFERENCES_KEY);
+    return raw ? { ...DEFAULT_PREFERENCES, ...JSON.parse(raw) } : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function saveRoutePreferences(preferences: RoutePreferences): void {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+function getChairSettings(): ChairSettings {
+  try {
+    const raw = localStorage.getItem(CHAIR_SETTINGS_KEY);
+    return raw ? { ...DEFAULT_CHAIR, ...JSON.parse(raw) } : DEFAULT_CHAIR;
+  } catch {
+    return DEFAULT_CHAIR;
+  }
+}
+
+function saveChairSettings(settings: ChairSettings): void {
+  localStorage.setItem(CHAIR_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+function activePreferenceKeys(preferences: RoutePreferences): RoutePreferenceKey[] {
+  return PREFERENCE_OPTIONS.map(o => o.key).filter(key => preferences[key]);
+}
+
+// Extra cost (in metres of "virtual" distance) a route pays for every
+// segment that goes against one of the user's preferences.
+function preferencePenalty(segments: RouteSegment[], preferences: RoutePreferences): number {
+  return segments.reduce((total, seg) => {
+    const length = seg.distance ?? polylineLength(seg.coordinates);
+    let factor = 0;
+    if (preferences.avoidSteepSlopes && Math.abs(seg.incline ?? 0) > 6) factor += 3;
+    if (preferences.avoidNarrowAlleys && seg.width !== undefined && seg.width < 120) factor += 2;
+    if (preferences.avoidUnpaved && seg.surface && UNPAVED_SURFACES.includes(seg.surface.toLowerCase())) factor += 2;
+    return total + length * factor;
+  }, 0);
+}
+
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Obstacles
+// ═══════════════════════════════════════════════════════════
+
+// Blocking obstacles further than this from the route but closer than
+// AVOIDED_NEAR_M are assumed to have been routed around
+const AVOIDED_NEAR_M = 150;
+
+// Virtual metres a route pays per unit of obstacle penalty when choosing
+// among OSRM alternatives
+const OBSTACLE_COST_M = 100;
+
+function collectObstacles(hazards: HazardPoint[], reports: IssueReport[]): Obstacle[] {
+  return [
+    ...reports.map(obstacleFromReport),
+    ...hazards.map(obstacleFromHazard),
+  ].filter((o): o is Obstacle => o !== null);
+}
+
+function routeCoordinates(route: Pick<RouteResult, 'segments'>): [number, number][] {
+  return route.segments.flatMap((seg, i) => i === 0 ? seg.coordinates : seg.coordinates.slice(1));
+}
+
+function obstacleCost(obstacles: Obstacle[]): number {
+  return obstacles.reduce((total, o) => total + (obstaclePenalty(o) - 1) * OBSTACLE_COST_M, 0);
+}
+
+function withObstacles(route: RouteResult, avoided: Obstacle[], onRoute: Obstacle[]): RouteResult {
+  return {
+    ...route,
+    obstacles: { avoided, onRoute },
+    warnings: [...obstacleWarnings(avoided, onRoute), ...route.warnings],
+  };
+}
+
+// ORS avoid_polygons: a small square around every blocking obstacle
+function avoidPolygons(obstacles: Obstacle[]) {
+  const blocking = obstacles.filter(o => o.blocking);
+  if (blocking.length === 0) return undefined;
+  
+  const dLat = OBSTACLE_BUFFER_M / 111320;
+  return {
+    type: 'MultiPolygon',
+    coordinates: blocking.map(o => {
+      const dLng = dLat / Math.cos((o.lat * Math.PI) / 180);
+      return [[
+        [o.lng - dLng, o.lat - dLat],
+        [o.lng + dLng, o.lat - dLat],
+        [o.lng + dLng, o.lat + dLat],
+        [o.lng - dLng, o.lat + dLat],
+        [o.lng - dLng, o.lat - dLat],
+      ]];
+    }),
+  };
+}
+
 // ═══════════════════════════════════════════════════════════
 // UTILITY FUNCTIONS: Routing
 // ═══════════════════════════════════════════════════════════
 
-async function getORSRoute(start: L.LatLng, end: L.LatLng, apiKey?: string): Promise<RouteResult | null> {
-  if (!apiKey) return getOSRMRoute(start, end);
+async function getBackendRoute(
+  start: L.LatLng,
+  end: L.LatLng,
+  preferences: RoutePreferences,
+  profile: MobilityProfile,
+  hazards: HazardPoint[],
+  chair: ChairSettings
+): Promise<RouteResult | null> {
+  try {
+    const response = await fetch(`${API_BASE}/routes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        from: { lat: start.lat, lng: start.lng },
+        to: { lat: end.lat, lng: end.lng },
+        preferences,
+        profile: profile.id,
+        hazards: hazards.filter(h => h.type === 'hazard'),
+        chair,
+      }),
+    });
+
+    if (!response.ok) throw new Error(`Backend routing error ${response.status}`);
+    const data: RouteResult = await response.json();
+    return data.segments.length > 0 ? data : null;
+  } catch (error) {
+    console.warn('Backend routing unavailable, falling back to ORS/OSRM:', error);
+    return null;
+  }
+}
+
+// ORS only accepts these values for the wheelchair restrictions
+const ORS_INCLINE_STEPS = [3, 6, 10, 15];
+const ORS_KERB_STEPS = [0.03, 0.06, 0.1];
+
+const largestStepWithin = (steps: number[], limit: number) =>
+  steps.filter(v => v <= limit).pop() ?? steps[0];
+
+// ORS wheelchair profile restrictions for the mobility profile and each
+// preference. "Prefer sidewalks" has no ORS equivalent and is reported as
+// not supported.
+function buildORSOptions(preferences: RoutePreferences, profile: MobilityProfile, obstacles: Obstacle[]) {
+  const maxIncline = preferences.avoidSteepSlopes ? Math.min(6, profile.maxInclinePercent) : profile.maxInclinePercent;
+  const minWidthCm = preferences.avoidNarrowAlleys ? Math.max(120, profile.minWidthCm) : profile.minWidthCm;
+  const restrictions: Record<string, number | string> = {
+    maximum_incline: largestStepWithin(ORS_INCLINE_STEPS, maxIncline),
+    maximum_sloped_kerb: largestStepWithin(ORS_KERB_STEPS, profile.maxCurbHeightCm / 100),
+    minimum_width: minWidthCm / 100,
+  };
+  // Stricter than ORS's own minimum (sett), so only paved ways are left
+  if (preferences.avoidUnpaved) restrictions.surface_type = 'paving_stones';
+
+  const honored: HonoredPreference[] = activePreferenceKeys(preferences).map(key => ({
+    key,
+    status: key === 'preferSidewalks' ? 'not_supported' : 'enforced',
+  }));
+
+  return {
+    options: {
+      avoid_features: profile.allowsSteps ? [] : ['steps'],
+      avoid_polygons: avoidPolygons(obstacles),
+      profile_params: { restrictions },
+    },
+    honored,
+  };
+}
+
+async function getORSRoute(
+  start: L.LatLng,
+  end: L.LatLng,
+  preferences: RoutePreferences,
+  profile: MobilityProfile,
+  obstacles: Obstacle[],
+  apiKey?: string
+): Promise<RouteResult | null> {
+  if (!apiKey) return null;
   
+  const { options, honored } = buildORSOptions(preferences, profile, obstacles);
+
   try {
     const url = 'https://api.openrouteservice.org/v2/directions/wheelchair';
     const response = await fetch(url, {
@@ -452,19 +1561,28 @@ async function getORSRoute(start: L.LatLng, end: L.LatLng, apiKey?: string): Pro
         elevation: true,
         extra_info: ['surface', 'waytype', 'steepness'],
         instructions: true,
+        alternative_routes: { target_count: 3, share_factor: 0.6, weight_factor: 1.6 },
+        options,
       }),
     });
     
     if (!response.ok) throw new Error('ORS API error');
     const data = await response.json();
-    return parseORSResponse(data);
+    const [route, ...alternatives] = (data.routes ?? [undefined]).map((r: unknown) => {
+      const parsed = parseORSResponse({ routes: [r] }, profile);
+      const coords = routeCoordinates(parsed);
+      const onRoute = obstaclesNear(obstacles, coords);
+      const avoided = obstaclesNear(obstacles.filter(o => o.blocking && !onRoute.includes(o)), coords, AVOIDED_NEAR_M);
+      return { ...withObstacles(parsed, avoided, onRoute), preferences: honored };
+    });
+    return { ...route, alternatives };
   } catch (error) {
-    console.warn('ORS unavailable, falling back to OSRM');
-    return getOSRMRoute(start, end);
+    console.warn('ORS unavailable:', error);
+    return null;
   }
 }
 
-function parseORSResponse(data: any): RouteResult {
+function parseORSResponse(data: any, profile: MobilityProfile): RouteResult {
   const route = data.routes?.[0];
   if (!route) {
     return { 
@@ -476,45 +1594,85 @@ function parseORSResponse(data: any): RouteResult {
   }
   
   const coords = route.geometry.coordinates.map((c: number[]) => [c[1], c[0]] as [number, number]);
-  const segments = classifySegments(coords, route.extras);
+  const segments = classifySegments(coords, profile, route.extras);
   
   return {
     segments,
     totalDistance: route.summary.distance,
-    estimatedTime: route.summary.duration,
+    estimatedTime: estimateTravelTime(route.summary.distance, profile),
     warnings: extractWarnings(route),
-    elevationProfile: route.geometry.coordinates.map((c: number[], i: number) => ({
-      distance: (i / coords.length) * route.summary.distance,
-      elevation: c[2] || 1300,
-    })),
+    elevationProfile: parseORSElevation(route.geometry.coordinates),
+    instructions: parseORSSteps(route, coords),
   };
 }
 
-function classifySegments(coords: [number, number][], extras?: any): RouteSegment[] {
+// ORS returns [lng, lat, elevation] when asked for elevation
+function parseORSElevation(coordinates: number[][]): RouteResult['elevationProfile'] {
+  if (coordinates.length < 2 || coordinates.some(c => c[2] === undefined)) return undefined;
+  let travelled = 0;
+  return coordinates.map((c, i) => {
+    if (i > 0) travelled += L.latLng(coordinates[i - 1][1], coordinates[i - 1][0]).distanceTo(L.latLng(c[1], c[0]));
+    return { distance: travelled, elevation: c[2] };
+  });
+}
+
+// ORS step `type` codes, by index
+const ORS_MANEUVERS: Maneuver[] = [
+  'left', 'right', 'sharp-left', 'sharp-right', 'slight-left', 'slight-right', 'straight',
+  'roundabout', 'roundabout', 'u-turn', 'arrive', 'depart', 'slight-left', 'slight-right',
+];
+
+interface ORSStep {
+  type: number;
+  name?: string;
+  distance: number;
+  way_points?: [number, number];
+}
+
+function parseORSSteps(route: { segments?: { steps?: ORSStep[] }[] }, coords: [number, number][]): RouteInstruction[] {
+  const instructions: RouteInstruction[] = [];
+  let travelled = 0;
+  for (const step of (route.segments ?? []).flatMap(s => s.steps ?? [])) {
+    const maneuver = ORS_MANEUVERS[step.type] ?? 'straight';
+    // ORS names unnamed ways "-"
+    const streetName = step.name && step.name !== '-' ? step.name : null;
+    instructions.push({
+      maneuver,
+      text: describeManeuver(maneuver, streetName),
+      distance: step.distance,
+      startDistance: travelled,
+      streetName,
+      location: coords[step.way_points?.[0] ?? 0] ?? coords[0],
+      notes: [],
+    });
+    travelled += step.distance;
+  }
+  return instructions;
+}
+
+function classifySegments(coords: [number, number][], profile: MobilityProfile, extras?: any): RouteSegment[] {
   if (!extras) return [{ coordinates: coords, accessibility: 'safe' }];
   
   const segments: RouteSegment[] = [];
-  const steepness = extras?.steepness?.values || [];
   const chunkSize = Math.max(1, Math.floor(coords.length / 8));
   
   for (let i = 0; i < coords.length; i += chunkSize) {
     const end = Math.min(i + chunkSize + 1, coords.length);
     const chunk = coords.slice(i, end);
-    
-    let acc: 'safe' | 'caution' | 'hazard' = 'safe';
-    
-    if (steepness.length > 0) {
-      const idx = Math.floor((i / coords.length) * steepness.length);
-      const val = steepness[idx]?.[2] || 0;
-      if (val > 8) acc = 'hazard';
-      else if (val > 4) acc = 'caution';
-    }
+    const surface = getSurfaceType(extras, i / coords.length);
+    const incline = getIncline(extras, i / coords.length);
+    const tags: Record<string, string> = { incline: String(incline) };
+    if (surface !== 'Unknown') tags.surface = surface.toLowerCase();
+    const result = classifySegment({ tags }, profile);
     
     segments.push({ 
       coordinates: chunk, 
-      accessibility: acc,
-      surface: getSurfaceType(extras, i / coords.length),
-      incline: getIncline(extras, i / coords.length)
+      accessibility: result.accessibility,
+      surface,
+      incline,
+      tags,
+      reasons: result.reasons,
+      description: describeReasons(result.reasons),
     });
   }
   
@@ -539,10 +1697,15 @@ function getSurfaceType(extras: any, ratio: number): string {
   return surfaceMap[surfaceCode] || 'Unknown';
 }
 
+// ORS reports steepness as a class from -5 to 5; these are the midpoints of
+// each class in percent.
+const ORS_STEEPNESS_PERCENT = [0, 2, 5, 9, 13.5, 16];
+
 function getIncline(extras: any, ratio: number): number {
   const steepness = extras?.steepness?.values || [];
   const idx = Math.floor(ratio * steepness.length);
-  return steepness[idx]?.[2] || 0;
+  const steepnessClass: number = steepness[idx]?.[2] || 0;
+  return Math.sign(steepnessClass) * ORS_STEEPNESS_PERCENT[Math.min(Math.abs(steepnessClass), 5)];
 }
 
 function extractWarnings(route: any): string[] {
@@ -565,21 +1728,56 @@ function extractWarnings(route: any): string[] {
   return warnings;
 }
 
-async function getOSRMRoute(start: L.LatLng, end: L.LatLng): Promise<RouteResult | null> {
+// The public OSRM foot profile takes no accessibility constraints, so
+// preferences and obstacles are applied as penalties when picking among its
+// alternatives.
+async function getOSRMRoute(
+  start: L.LatLng,
+  end: L.LatLng,
+  preferences: RoutePreferences,
+  profile: MobilityProfile,
+  obstacles: Obstacle[]
+): Promise<RouteResult | null> {
   try {
-    const url = `https://router.project-osrm.org/route/v1/foot/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson&steps=true&annotations=true`;
+    const url = `https://router.project-osrm.org/route/v1/foot/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson&steps=true&annotations=true&alternatives=3`;
     const response = await fetch(url);
     
     if (!response.ok) throw new Error('OSRM error');
     const data = await response.json();
-    return parseOSRMResponse(data);
+
+    const parsed: RouteResult[] = (data.routes || []).map((route: unknown) => parseOSRMResponse({ routes: [route] }, profile));
+    if (parsed.length === 0) return null;
+    // OSRM has no accessibility attributes; the backend's path data gives
+    // the candidates surface, incline and width to weigh preferences by
+    const candidates = await Promise.all(parsed.map(c => classifyRoute(c, profile, [], [])));
+    const attributed = candidates.some(c =>
+      c.segments.some(seg => seg.surface !== undefined || seg.incline !== undefined || seg.width !== undefined)
+    );
+
+    const near = candidates.map(c => obstaclesNear(obstacles, routeCoordinates(c)));
+    const costs = candidates.map((c, i) =>
+      c.totalDistance + preferencePenalty(c.segments, preferences) + obstacleCost(near[i])
+    );
+    const bestIdx = costs.indexOf(Math.min(...costs));
+    // OSRM's first route is its shortest; obstacles on it but not on ours were avoided
+    const onRoute = near[bestIdx];
+    const avoided = near[0].filter(o => !onRoute.includes(o));
+    const best = withObstacles(candidates[bestIdx], avoided, onRoute);
+    const honored: HonoredPreference[] = activePreferenceKeys(preferences).map(key => ({
+      key,
+      status: key === 'preferSidewalks' || candidates.length < 2 || !attributed ? 'not_supported' : 'penalized',
+    }));
+    const alternatives = candidates
+      .map((c, i) => ({ ...withObstacles(c, near[0].filter(o => !near[i].includes(o)), near[i]), preferences: honored }))
+      .filter((_, i) => i !== bestIdx);
+    return { ...best, preferences: honored, alternatives };
   } catch (error) {
-    console.warn('OSRM unavailable, using enhanced mock route');
-    return getEnhancedMockRoute(start, end);
+    console.warn('OSRM unavailable:', error);
+    return null;
   }
 }
 
-function parseOSRMResponse(data: any): RouteResult {
+function parseOSRMResponse(data: any, profile: MobilityProfile): RouteResult {
   const route = data.routes?.[0];
   if (!route) {
     return { 
@@ -591,67 +1789,195 @@ function parseOSRMResponse(data: any): RouteResult {
   }
   
   const coords = route.geometry.coordinates.map((c: number[]) => [c[1], c[0]] as [number, number]);
-  const segments = generateEnhancedAccessibilitySegments(coords);
+  const segments = splitIntoSegments(coords, profile);
   
   return {
     segments,
     totalDistance: route.distance,
-    estimatedTime: route.duration * 1.5, // Adjust for wheelchair speed
+    estimatedTime: estimateTravelTime(route.distance, profile),
     warnings: [
       'Route calculated for pedestrian - verify accessibility',
       'Check local conditions before traveling'
     ],
-    elevationProfile: coords.map((_, i) => ({
-      distance: (i / coords.length) * route.distance,
-      elevation: 1300 + Math.sin(i * 0.3) * 25 + Math.cos(i * 0.2) * 15,
-    })),
+    instructions: parseOSRMSteps(route),
   };
 }
 
-function generateEnhancedAccessibilitySegments(coords: [number, number][]): RouteSegment[] {
+// OSRM step modifiers; turns without one continue straight
+const OSRM_MODIFIERS: Record<string, Maneuver> = {
+  left: 'left', right: 'right', 'sharp left': 'sharp-left', 'sharp right': 'sharp-right',
+  'slight left': 'slight-left', 'slight right': 'slight-right', straight: 'straight', uturn: 'u-turn',
+};
+
+function osrmManeuver(type: string, modifier?: string): Maneuver {
+  if (type === 'depart' || type === 'arrive') return type;
+  if (type === 'roundabout' || type === 'rotary') return 'roundabout';
+  return OSRM_MODIFIERS[modifier ?? ''] ?? 'straight';
+}
+
+interface OSRMStep {
+  name?: string;
+  distance: number;
+  maneuver?: { type: string; modifier?: string; location: [number, number] };
+}
+
+function parseOSRMSteps(route: { legs?: { steps?: OSRMStep[] }[] }): RouteInstruction[] {
+  const instructions: RouteInstruction[] = [];
+  let travelled = 0;
+  for (const step of (route.legs ?? []).flatMap(leg => leg.steps ?? [])) {
+    const maneuver = osrmManeuver(step.maneuver?.type ?? '', step.maneuver?.modifier);
+    const streetName = step.name || null;
+    const [lng, lat] = step.maneuver?.location ?? [0, 0];
+    instructions.push({
+      maneuver,
+      text: describeManeuver(maneuver, streetName),
+      distance: step.distance,
+      startDistance: travelled,
+      streetName,
+      location: [lat, lng],
+      notes: [],
+    });
+    travelled += step.distance;
+  }
+  return instructions;
+}
+
+// Splits a bare polyline (no attributes from the router) into fixed-size
+// segments. Each starts out 'unverified' until classifyRoute adds evidence.
+function splitIntoSegments(coords: [number, number][], profile: MobilityProfile): RouteSegment[] {
   const segments: RouteSegment[] = [];
   const numSegments = Math.max(5, Math.floor(coords.length / 6));
   const chunkSize = Math.ceil(coords.length / numSegments);
-  
-  const surfaces = ['Asphalt', 'Concrete', 'Paved', 'Gravel', 'Unpaved', 'Cobblestone'];
-  const descriptions = [
-    'Good paved road, wide sidewalks',
-    'Narrow sidewalk section, moderate width',
-    'Unpaved stretch - use caution',
-    'Gradual incline ahead',
-    'Construction zone nearby, may have detours',
-    'Well-maintained path',
-    'Smooth surface, good accessibility',
-    'Rough terrain, proceed carefully'
-  ];
+  const result = classifySegment({}, profile);
   
   for (let i = 0; i < coords.length; i += chunkSize) {
     const end = Math.min(i + chunkSize + 1, coords.length);
     const chunk = coords.slice(i, end);
     if (chunk.length < 2) continue;
     
-    // Calculate incline based on position
-    const incline = Math.sin(i * 0.2) * 6 + Math.random() * 4;
-    
-    // Determine accessibility based on incline and random factors
-    let acc: 'safe' | 'caution' | 'hazard';
-    if (incline < 3 && Math.random() > 0.3) acc = 'safe';
-    else if (incline < 6 && Math.random() > 0.2) acc = 'caution';
-    else acc = 'hazard';
-    
     segments.push({
       coordinates: chunk,
-      accessibility: acc,
-      surface: surfaces[Math.floor(Math.random() * surfaces.length)],
-      incline: incline,
-      description: descriptions[Math.floor(Math.random() * descriptions.length)],
+      accessibility: result.accessibility,
+      reasons: result.reasons,
+      description: describeReasons(result.reasons),
     });
   }
   
   return segments;
 }
 
-function getEnhancedMockRoute(start: L.LatLng, end: L.LatLng): RouteResult {
+// Gathers evidence for every segment – matched paths and reports from the
+// backend, plus hazards and local reports near the segment – and rates it
+// with the shared classifier.
+async function classifyRoute(
+  route: RouteResult,
+  profile: MobilityProfile,
+  hazards: HazardPoint[],
+  reports: IssueReport[]
+): Promise<RouteResult> {
+  let segments = route.segments;
+  let elevationProfile = route.elevationProfile;
+  
+  if (segments.some(seg => !seg.evidence)) {
+    try {
+      const response = await fetch(`${API_BASE}/routes/classify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          segments: segments.map(({ coordinates, tags }) => ({ coordinates, tags })),
+          profile: profile.id,
+        }),
+      });
+      if (!response.ok) throw new Error(`Classify error ${response.status}`);
+      const data: { segments: RouteSegment[]; elevationProfile: RouteResult['elevationProfile'] | null } = await response.json();
+      segments = segments.map((seg, i) => ({ ...seg, evidence: data.segments[i]?.evidence }));
+      // The local elevation model wins over the router's own, if any
+      elevationProfile = data.elevationProfile ?? elevationProfile;
+    } catch (error) {
+      console.warn('Backend classification unavailable, using route tags only:', error);
+    }
+  }
+  
+  const classified = segments.map((seg) => {
+    const near = (p: { lat: number; lng: number }) => distanceToPolyline(p, seg.coordinates) <= HAZARD_BUFFER_M;
+    const evidence: SegmentEvidence = {
+      ...(seg.evidence ?? { tags: seg.tags ?? {} }),
+      hazards: hazards.filter(near).map(h => ({ type: h.type, category: h.category, description: h.description })),
+    };
+    const known = new Set((evidence.reports ?? []).map(r => r.id));
+    evidence.reports = [
+      ...(evidence.reports ?? []),
+      ...reports
+        .filter(r => !known.has(r.id) && near(r))
+        .map(r => ({ id: r.id, type: r.type, description: r.description, confidence: r.confidence })),
+    ];
+    
+    const result = classifySegment(evidence, profile);
+    return {
+      ...seg,
+      evidence,
+      accessibility: result.accessibility,
+      reasons: result.reasons,
+      surface: result.surface ?? seg.surface,
+      incline: result.incline ?? seg.incline,
+      width: result.width ?? seg.width,
+      hasCurbCuts: result.hasCurbCuts ?? seg.hasCurbCuts,
+      accessibilityScore: result.score.score,
+      scoreBreakdown: result.score.components,
+      description: describeReasons(result.reasons),
+    };
+  });
+  
+  const instructions = route.instructions && annotateInstructions(
+    route.instructions,
+    classified.map(seg => ({ ...seg, pathType: segmentPathType(seg) }))
+  );
+  
+  return { ...route, segments: classified, instructions, elevationProfile };
+}
+
+function segmentPathType(seg: RouteSegment): string | undefined {
+  return seg.evidence?.path?.pathType ?? seg.evidence?.tags?.highway;
+}
+
+// Shares are by distance, so one long caution stretch outweighs many short
+// safe ones
+function summarizeRoute(route: RouteResult): RouteSummary {
+  const lengths = route.segments.map(seg => polylineLength(seg.coordinates));
+  const total = lengths.reduce((sum, l) => sum + l, 0) || 1;
+  const share = (level: RouteSegment['accessibility']) =>
+    Math.round((route.segments.reduce((sum, seg, i) => sum + (seg.accessibility === level ? lengths[i] : 0), 0) / total) * 100);
+  
+  return {
+    safePercent: share('safe'),
+    cautionPercent: share('caution'),
+    hazardPercent: share('hazard'),
+    maxIncline: Math.max(0, ...route.segments.map(seg => Math.abs(seg.incline ?? 0))),
+    steps: route.segments.filter(seg => segmentPathType(seg) === 'steps').length,
+    activeReports: new Set(route.segments.flatMap(seg => (seg.evidence?.reports ?? []).map(r => r.id))).size,
+  };
+}
+
+// Routes offered at most, the recommended one included, whichever provider
+// found them
+const MAX_ROUTE_OPTIONS = 3;
+
+// The options to offer, in order and at most MAX_ROUTE_OPTIONS of them, the
+// first one recommended. When the recommended route goes over the chair's
+// effort limit, the first option within it takes its place; the local
+// router does the same on its side.
+function preferWithinEffort(options: RouteResult[], chair: ChairSettings): RouteResult[] {
+  const over = (option: RouteResult) => routeEffort(option, chair).overLimit;
+  const within = options.find(option => !over(option));
+  const ordered = options.length === 0 || !over(options[0]) || !within
+    ? options
+    : [within, ...options.filter(option => option !== within)];
+  return ordered.slice(0, MAX_ROUTE_OPTIONS);
+}
+
+// A made-up line for demos. Only used when 'simulated' is configured as a
+// provider, and always flagged as simulated.
+function getEnhancedMockRoute(start: L.LatLng, end: L.LatLng, profile: MobilityProfile): RouteResult {
   const steps = 25;
   const coords: [number, number][] = [];
   
@@ -666,29 +1992,141 @@ function getEnhancedMockRoute(start: L.LatLng, end: L.LatLng): RouteResult {
     ]);
   }
   
-  const segments = generateEnhancedAccessibilitySegments(coords);
+  const segments = splitIntoSegments(coords, profile);
   const dist = start.distanceTo(end);
   
   return {
     segments,
     totalDistance: dist,
-    estimatedTime: (dist / 1.0) * 1.5, // Slower speed for wheelchair
+    estimatedTime: estimateTravelTime(dist, profile),
     warnings: [
-      'Using simulated route data - for demonstration only',
-      'Actual conditions may vary',
-      'Some streets may have accessibility challenges'
+      'Simulated route – does not follow real streets, for demonstration only',
     ],
-    elevationProfile: coords.map((_, i) => ({
-      distance: (i / coords.length) * dist,
-      elevation: 1300 + Math.sin(i * 0.4) * 35 + Math.cos(i * 0.3) * 20,
-    })),
+    simulated: true,
   };
 }
 
-function exportRouteAsGPX(segments: { coordinates: [number, number][] }[]): string {
-  const points = segments.flatMap(s => s.coordinates);
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Elevation
+// ═══════════════════════════════════════════════════════════
+
+// "Steepest sustained grade" is the steepest held over at least this distance
+const SUSTAINED_GRADE_M = 50;
+
+// Elevation `distance` metres into a profile, interpolated between samples
+function elevationAtDistance(profile: { distance: number; elevation: number }[], distance: number): number {
+  const next = profile.findIndex(p => p.distance >= distance);
+  if (next <= 0) return next === 0 ? profile[0].elevation : profile[profile.length - 1].elevation;
+  const a = profile[next - 1];
+  const b = profile[next];
+  return a.elevation + ((distance - a.distance) / ((b.distance - a.distance) || 1)) * (b.elevation - a.elevation);
+}
+
+// Grade (%) at each profile point, measured over GRADE_WINDOW_M around it
+function profileGrades(profile: ElevationPoint[]): number[] {
+  return profile.map((p, i) => {
+    let lo = i;
+    let hi = i;
+    while (lo > 0 && p.distance - profile[lo - 1].distance <= GRADE_WINDOW_M / 2) lo--;
+    while (hi < profile.length - 1 && profile[hi + 1].distance - p.distance <= GRADE_WINDOW_M / 2) hi++;
+    if (lo === hi) {
+      lo = Math.max(0, i - 1);
+      hi = Math.min(profile.length - 1, i + 1);
+    }
+    const run = profile[hi].distance - profile[lo].distance;
+    return run > 0 ? ((profile[hi].elevation - profile[lo].elevation) / run) * 100 : 0;
+  });
+}
+
+function elevationStats(profile: ElevationPoint[]): ElevationStats {
+  const { climb, descent } = climbAndDescent(profile);
+  
+  const total = profile[profile.length - 1].distance - profile[0].distance;
+  const window = Math.min(SUSTAINED_GRADE_M, total);
+  let steepestGrade = 0;
+  let steepestLength = window;
+  let j = 0;
+  for (let i = 0; i < profile.length; i++) {
+    while (j < profile.length - 1 && profile[j].distance - profile[i].distance < window) j++;
+    const run = profile[j].distance - profile[i].distance;
+    if (run < window || run <= 0) break;
+    const grade = ((profile[j].elevation - profile[i].elevation) / run) * 100;
+    if (Math.abs(grade) > Math.abs(steepestGrade)) {
+      steepestGrade = grade;
+      steepestLength = run;
+    }
+  }
+  
+  return { climb, descent, steepestGrade, steepestLength };
+}
+
+// Matches the classifier: steeper than the profile allows is a hazard, the
+// last quarter below that a caution
+function gradeSeverity(grade: number, maxInclinePercent: number): 'caution' | 'hazard' | null {
+  const steepness = Math.abs(grade);
+  if (steepness > maxInclinePercent) return 'hazard';
+  if (steepness > maxInclinePercent * 0.75) return 'caution';
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Routing Providers
+// ═══════════════════════════════════════════════════════════
+
+const ROUTING_PROVIDERS: Record<RoutingProviderId, RoutingProvider> = {
+  local: {
+    id: 'local',
+    label: 'Local accessibility network',
+    route: (r) => getBackendRoute(r.start, r.end, r.preferences, r.profile, r.hazards, r.chair),
+  },
+  ors: {
+    id: 'ors',
+    label: 'OpenRouteService (wheelchair)',
+    route: (r) => getORSRoute(r.start, r.end, r.preferences, r.profile, r.obstacles, process.env.NEXT_PUBLIC_ORS_API_KEY),
+  },
+  osrm: {
+    id: 'osrm',
+    label: 'OSRM (public, walking)',
+    route: (r) => getOSRMRoute(r.start, r.end, r.preferences, r.profile, r.obstacles),
+  },
+  simulated: {
+    id: 'simulated',
+    label: 'Simulated (demo only)',
+    route: async (r) => getEnhancedMockRoute(r.start, r.end, r.profile),
+  },
+};
+
+const DEFAULT_ROUTING_PROVIDERS: RoutingProviderId[] = ['local', 'ors', 'osrm'];
+
+// Providers to try, in order, from NEXT_PUBLIC_ROUTING_PROVIDERS
+// (e.g. "local" on offline machines, "local,ors,osrm" by default)
+function configuredProviders(): RoutingProvider[] {
+  const ids = (process.env.NEXT_PUBLIC_ROUTING_PROVIDERS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter((id): id is RoutingProviderId => id in ROUTING_PROVIDERS);
+  return (ids.length > 0 ? ids : DEFAULT_ROUTING_PROVIDERS).map(id => ROUTING_PROVIDERS[id]);
+}
+
+async function routeWithProviders(request: RouteRequest): Promise<RouteResult | null> {
+  for (const provider of configuredProviders()) {
+    const result = await provider.route(request);
+    if (result) return { ...result, provider: provider.id, simulated: provider.id === 'simulated' };
+  }
+  return null;
+}
+
+// Track points carry <ele> only when the route has a real elevation profile
+function exportRouteAsGPX(route: Pick<RouteResult, 'segments' | 'elevationProfile'>): string {
+  const points = routeCoordinates(route);
+  const profile = route.elevationProfile && route.elevationProfile.length > 1 ? route.elevationProfile : null;
+  let travelled = 0;
   const gpxPoints = points
-    .map(([lat, lng]) => `      <trkpt lat="${lat}" lon="${lng}"><ele>1300</ele></trkpt>`)
+    .map(([lat, lng], i) => {
+      if (i > 0) travelled += L.latLng(points[i - 1]).distanceTo(L.latLng(lat, lng));
+      const ele = profile ? `<ele>${elevationAtDistance(profile, travelled).toFixed(1)}</ele>` : '';
+      return `      <trkpt lat="${lat}" lon="${lng}">${ele}</trkpt>`;
+    })
     .join('\n');
   
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -714,6 +2152,75 @@ function generateShareUrl(startLat: number, startLng: number, endLat: number, en
   return `${window.location.origin}?start=${startLat.toFixed(6)},${startLng.toFixed(6)}&end=${endLat.toFixed(6)},${endLng.toFixed(6)}`;
 }
 
+// ═══════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS: Trips
+// ═══════════════════════════════════════════════════════════
+
+// Places further than this from the route are not offered as a toilet stop
+const TOILET_STOP_MAX_M = 300;
+
+// One route out of the routes between consecutive stops. `labels` names
+// every stop, start and destination included.
+function joinLegs(routes: RouteResult[], labels: string[]): RouteResult {
+  const legs: RouteLeg[] = [];
+  let startDistance = 0;
+  let segmentCount = 0;
+  routes.forEach((leg, i) => {
+    legs.push({
+      from: labels[i],
+      to: labels[i + 1],
+      distance: leg.totalDistance,
+      estimatedTime: leg.estimatedTime,
+      startDistance,
+      segmentRange: [segmentCount, segmentCount + leg.segments.length],
+    });
+    startDistance += leg.totalDistance;
+    segmentCount += leg.segments.length;
+  });
+  
+  const offset = (i: number) => legs[i].startDistance;
+  const everyLeg = <T,>(pick: (route: RouteResult) => T | undefined) =>
+    routes.every(r => pick(r) !== undefined) ? routes.map(r => pick(r) as T) : undefined;
+  const byKey = (obstacles: Obstacle[]) => obstacles.filter((o, i) => obstacles.findIndex(x => x.key === o.key) === i);
+  
+  // A stop is an arrival, not the end of the trip
+  const instructions = everyLeg(r => r.instructions)?.flatMap((steps, i) =>
+    steps.map(step => ({
+      ...step,
+      startDistance: step.startDistance + offset(i),
+      text: step.maneuver === 'arrive' && i < routes.length - 1 ? `Arrive at ${labels[i + 1]}` : step.text,
+    }))
+  );
+  const elevationProfile = everyLeg(r => r.elevationProfile)?.flatMap((profile, i) =>
+    profile.map(p => ({ ...p, distance: p.distance + offset(i) }))
+  );
+  
+  return {
+    segments: routes.flatMap(r => r.segments),
+    totalDistance: startDistance,
+    estimatedTime: routes.reduce((sum, r) => sum + r.estimatedTime, 0),
+    warnings: [...new Set(routes.flatMap(r => r.warnings))],
+    elevationProfile,
+    preferences: routes[0].preferences,
+    obstacles: {
+      avoided: byKey(routes.flatMap(r => r.obstacles?.avoided ?? [])),
+      onRoute: byKey(routes.flatMap(r => r.obstacles?.onRoute ?? [])),
+    },
+    instructions,
+    provider: routes[0].provider,
+    simulated: routes.some(r => r.simulated),
+    legs,
+  };
+}
+
+// Index in the waypoint list at which a stop `along` metres into the trip
+// belongs, i.e. the number of stops before it
+function waypointIndexAt(route: RouteResult, along: number): number {
+  if (!route.legs) return 0;
+  const leg = route.legs.findIndex(l => along < l.startDistance + l.distance);
+  return leg === -1 ? route.legs.length - 1 : leg;
+}
+
 // ═══════════════════════════════════════════════════════════
 // MAP ICONS
 // ═══════════════════════════════════════════════════════════
@@ -740,6 +2247,14 @@ const endIcon = L.divIcon({
   iconAnchor: [12, 12],
 });
 
+// Numbered like the stops in the route panel
+const waypointIcon = (n: number) => L.divIcon({
+  className: 'waypoint-marker',
+  html: `<div style="width:22px;height:22px;border-radius:50%;background:#f59e0b;border:3px solid white;box-shadow:0 2px 10px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center;color:white;font-size:11px;font-weight:bold;">${n}</div>`,
+  iconSize: [22, 22],
+  iconAnchor: [11, 11],
+});
+
 const currentLocationIcon = L.divIcon({
   className: 'current-location-marker',
   html: `<div style="width:20px;height:20px;border-radius:50%;background:#3b82f6;border:3px solid white;box-shadow:0 0 0 2px rgba(59,130,246,0.3);display:flex;align-items:center;justify-content:center;"><div style="width:8px;height:8px;border-radius:50%;background:white;"></div></div>`,
@@ -755,24 +2270,38 @@ interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
   onSearchSelect: (result: SearchResult) => void;
+  onAddStop?: (result: SearchResult) => void;   // only offered once there is a destination
   onUseCurrentLocation: () => void;
   savedLocations: SavedLocation[];
   recentSearches: SearchResult[];
   onClearRecent: () => void;
   onDeleteSaved: (id: string) => void;
   onSelectSaved: (location: SavedLocation) => void;
+  preferences: RoutePreferences;
+  onPreferencesChange: (preferences: RoutePreferences) => void;
+  voiceSettings: VoiceSettings;
+  onVoiceSettingsChange: (settings: VoiceSettings) => void;
+  chairSettings: ChairSettings;
+  onChairSettingsChange: (settings: ChairSettings) => void;
 }
 
 function SidebarComponent({
   isOpen,
   onClose,
   onSearchSelect,
+  onAddStop,
   onUseCurrentLocation,
   savedLocations,
   recentSearches,
   onClearRecent,
   onDeleteSaved,
   onSelectSaved,
+  preferences,
+  onPreferencesChange,
+  voiceSettings,
+  onVoiceSettingsChange,
+  chairSettings,
+  onChairSettingsChange,
 }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -806,6 +2335,12 @@ function SidebarComponent({
     setSearchResults([]);
   };
 
+  const handleAddStop = (result: SearchResult) => {
+    onAddStop?.(result);
+    setSearchQuery('');
+    setSearchResults([]);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -889,25 +2424,35 @@ function SidebarComponent({
                     Search Results
                   </h3>
                   {searchResults.map((result) => (
-                    <button
-                      key={result.id}
-                      onClick={() => handleSelectResult(result)}
-                      className="w-full text-left p-3 hover:bg-slate-50 rounded-xl transition-colors border border-slate-100"
-                    >
-                      <div className="flex items-start gap-3">
-                        <MapPin className="w-4 h-4 text-slate-400 flex-shrink-0 mt-0.5" />
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-slate-700 truncate">{result.name}</p>
-                          <p className="text-xs text-slate-500 truncate">{result.displayName}</p>
-                        </div>
-                        <div className="flex items-center gap-1 flex-shrink-0">
-                          <Accessibility className="w-3.5 h-3.5" />
-                          <span className="text-xs font-semibold text-slate-600">
-                            {result.accessibilityScore}/10
-                          </span>
+                    <div key={result.id} className="flex items-stretch gap-2">
+                      <button
+                        onClick={() => handleSelectResult(result)}
+                        className="flex-1 min-w-0 text-left p-3 hover:bg-slate-50 rounded-xl transition-colors border border-slate-100"
+                      >
+                        <div className="flex items-start gap-3">
+                          <MapPin className="w-4 h-4 text-slate-400 flex-shrink-0 mt-0.5" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-slate-700 truncate">{result.name}</p>
+                            <p className="text-xs text-slate-500 truncate">{result.displayName}</p>
+                          </div>
+                          <div className="flex items-center gap-1 flex-shrink-0" title={describeBreakdown(result.scoreBreakdown)}>
+                            <Accessibility className="w-3.5 h-3.5" />
+                            <span className="text-xs font-semibold text-slate-600">
+                              {result.scoreRated === false ? 'Unrated' : `${result.accessibilityScore}/10`}
+                            </span>
+                          </div>
                         </div>
-                      </div>
-                    </button>
+                      </button>
+                      {onAddStop && (
+                        <button
+                          onClick={() => handleAddStop(result)}
+                          title="Add as a stop before the destination"
+                          className="px-3 rounded-xl border border-slate-100 text-slate-500 hover:bg-amber-50 hover:text-amber-600 transition-colors"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
                   ))}
                 </div>
               )}
@@ -1023,22 +2568,77 @@ function SidebarComponent({
               <div className="border border-slate-200 rounded-xl p-4">
                 <h3 className="font-medium text-slate-700 mb-3">Route Preferences</h3>
                 <div className="space-y-3">
-                  <label className="flex items-center gap-3 cursor-pointer">
-                    <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600" />
-                    <span className="text-sm text-slate-600">Avoid slopes above 6%</span>
-                  </label>
-                  <label className="flex items-center gap-3 cursor-pointer">
-                    <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600" />
-                    <span className="text-sm text-slate-600">Avoid narrow alleys</span>
-                  </label>
-                  <label className="flex items-center gap-3 cursor-pointer">
-                    <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600" />
-                    <span className="text-sm text-slate-600">Avoid unpaved roads</span>
-                  </label>
-                  <label className="flex items-center gap-3 cursor-pointer">
-                    <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600" />
-                    <span className="text-sm text-slate-600">Prefer sidewalks</span>
-                  </label>
+                  {PREFERENCE_OPTIONS.map(({ key, label }) => (
+                    <label key={key} className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 rounded border-slate-300 text-blue-600"
+                        checked={preferences[key]}
+                        onChange={(e) => onPreferencesChange({ ...preferences, [key]: e.target.checked })}
+                      />
+                      <span className="text-sm text-slate-600">{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border border-slate-200 rounded-xl p-4">
+                <h3 className="font-medium text-slate-700 mb-3">Chair & Effort</h3>
+                <div className="space-y-3">
+                  <div className="flex gap-2">
+                    {CHAIR_TYPE_OPTIONS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => onChairSettingsChange({ ...chairSettings, type: value })}
+                        className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-medium border transition-colors ${
+                          chairSettings.type === value
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {chairSettings.type === 'powered' && (
+                    <label className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-slate-600">Battery capacity</span>
+                      <span className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min={50}
+                          step={50}
+                          className="w-20 rounded-lg border border-slate-200 px-2 py-1 text-sm text-right"
+                          value={chairSettings.batteryWh}
+                          onChange={(e) => {
+                            const batteryWh = Number(e.target.value);
+                            if (batteryWh > 0) onChairSettingsChange({ ...chairSettings, batteryWh });
+                          }}
+                        />
+                        <span className="text-xs text-slate-500">Wh</span>
+                      </span>
+                    </label>
+                  )}
+
+                  <div>
+                    <p className="text-xs font-medium text-slate-500 mb-1">Keep routes within</p>
+                    <select
+                      className="w-full rounded-lg border border-slate-200 px-2 py-1.5 text-sm text-slate-600"
+                      value={(chairSettings.type === 'powered' ? chairSettings.maxBatteryPercent : chairSettings.maxPushKj) ?? ''}
+                      onChange={(e) => {
+                        const limit = e.target.value === '' ? null : Number(e.target.value);
+                        onChairSettingsChange(chairSettings.type === 'powered'
+                          ? { ...chairSettings, maxBatteryPercent: limit }
+                          : { ...chairSettings, maxPushKj: limit });
+                      }}
+                    >
+                      <option value="">No effort limit</option>
+                      {(chairSettings.type === 'powered' ? BATTERY_LIMIT_OPTIONS : PUSH_LIMIT_OPTIONS).map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
               </div>
 
@@ -1071,10 +2671,92 @@ function SidebarComponent({
                     <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600" />
                     <span className="text-sm text-slate-600">Large text</span>
                   </label>
+                </div>
+              </div>
+
+              <div className="border border-slate-200 rounded-xl p-4">
+                <h3 className="font-medium text-slate-700 mb-3">Voice Guidance</h3>
+                <div className="space-y-3">
                   <label className="flex items-center gap-3 cursor-pointer">
-                    <input type="checkbox" className="w-4 h-4 rounded border-slate-300 text-blue-600" />
-                    <span className="text-sm text-slate-600">Voice guidance</span>
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4 rounded border-slate-300 text-blue-600"
+                      checked={voiceSettings.enabled}
+                      onChange={(e) => onVoiceSettingsChange({ ...voiceSettings, enabled: e.target.checked })}
+                    />
+                    <span className="text-sm text-slate-600">Speak directions while navigating</span>
                   </label>
+
+                  <div>
+                    <p className="text-xs font-medium text-slate-500 mb-1">Language</p>
+                    <div className="flex gap-2">
+                      {VOICE_LANGUAGE_OPTIONS.map(({ value, label }) => (
+                        <button
+                          key={value}
+                          onClick={() => onVoiceSettingsChange({ ...voiceSettings, language: value })}
+                          className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-medium border transition-colors ${
+                            voiceSettings.language === value
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium text-slate-500 mb-1">Detail</p>
+                    <div className="space-y-1">
+                      {VOICE_VERBOSITY_OPTIONS.map(({ value, label, hint }) => (
+                        <label key={value} className="flex items-start gap-3 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="voice-verbosity"
+                            className="w-4 h-4 mt-0.5 border-slate-300 text-blue-600"
+                            checked={voiceSettings.verbosity === value}
+                            onChange={() => onVoiceSettingsChange({ ...voiceSettings, verbosity: value })}
+                          />
+                          <span className="text-sm text-slate-600">
+                            {label}
+                            <span className="block text-xs text-slate-400">{hint}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium text-slate-500 mb-1">Announce</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {VOICE_EVENT_OPTIONS.map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="w-4 h-4 rounded border-slate-300 text-blue-600"
+                            checked={voiceSettings.events[key]}
+                            onChange={(e) => onVoiceSettingsChange({
+                              ...voiceSettings,
+                              events: { ...voiceSettings.events, [key]: e.target.checked },
+                            })}
+                          />
+                          <span className="text-sm text-slate-600">{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => speak(
+                      voiceSettings.language === 'ne' ? 'आवाज निर्देशन सक्रिय छ' : 'Voice guidance is on',
+                      voiceSettings.language
+                    )}
+                    className="w-full flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg py-2 text-xs font-medium transition-colors"
+                  >
+                    <Volume2 className="w-4 h-4" />
+                    Test voice
+                  </button>
                 </div>
               </div>
 
@@ -1125,6 +2807,17 @@ function MapViewComponent({
   flyTo,
   mapStyle,
   onMapReady,
+  onBoundsChange,
+  onReportAction,
+  places = [],
+  onPlaceSelect,
+  followLocation = false,
+  highlightPoint = null,
+  routeOptions = [],
+  onRouteSelect,
+  waypoints = [],
+  onMapLongPress,
+  isochrones = [],
 }: {
   onMapClick: (lat: number, lng: number) => void;
   route: RouteResult | null;
@@ -1133,9 +2826,20 @@ function MapViewComponent({
   startPoint: { lat: number; lng: number } | null;
   endPoint: { lat: number; lng: number } | null;
   currentLocation: { lat: number; lng: number } | null;
-  flyTo: { lat: number; lng: number } | null;
+  flyTo: { lat: number; lng: number; zoom?: number } | null;
   mapStyle: string;
   onMapReady?: (map: L.Map) => void;
+  onBoundsChange?: (bounds: MapBounds) => void;
+  onReportAction?: (report: IssueReport, action: ReportAction) => void;
+  places?: Place[];
+  onPlaceSelect?: (place: Place) => void;
+  followLocation?: boolean;
+  highlightPoint?: { lat: number; lng: number } | null;
+  routeOptions?: RouteResult[];
+  onRouteSelect?: (route: RouteResult) => void;
+  waypoints?: Waypoint[];
+  onMapLongPress?: (lat: number, lng: number) => void;
+  isochrones?: Isochrone[];
 }) {
   const mapRef = useRef<L.Map | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -1143,6 +2847,9 @@ function MapViewComponent({
   const markersRef = useRef<L.LayerGroup | null>(null);
   const routeLayerRef = useRef<L.LayerGroup | null>(null);
   const hazardLayerRef = useRef<L.LayerGroup | null>(null);
+  const placesLayerRef = useRef<L.LayerGroup | null>(null);
+  const reachLayerRef = useRef<L.LayerGroup | null>(null);
+  const highlightRef = useRef<L.CircleMarker | null>(null);
 
   // Initialize map
   useEffect(() => {
@@ -1161,11 +2868,24 @@ function MapViewComponent({
       maxZoom: 19 
     }).addTo(map);
     
+    // Reachable areas lie underneath everything else
+    reachLayerRef.current = L.layerGroup().addTo(map);
     markersRef.current = L.layerGroup().addTo(map);
     routeLayerRef.current = L.layerGroup().addTo(map);
     hazardLayerRef.current = L.layerGroup().addTo(map);
+    placesLayerRef.current = L.layerGroup().addTo(map);
     
     map.on('click', (e: L.LeafletMouseEvent) => onMapClick(e.latlng.lat, e.latlng.lng));
+    // Leaflet fires contextmenu for a long press on touch screens and for a
+    // right click elsewhere
+    map.on('contextmenu', (e: L.LeafletMouseEvent) => onMapLongPress?.(e.latlng.lat, e.latlng.lng));
+    
+    const emitBounds = () => {
+      const b = map.getBounds();
+      onBoundsChange?.({ south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() });
+    };
+    map.on('moveend', emitBounds);
+    emitBounds();
     
     mapRef.current = map;
     
@@ -1196,6 +2916,12 @@ function MapViewComponent({
         .addTo(markersRef.current);
     }
     
+    waypoints.forEach((w, i) => {
+      L.marker([w.lat, w.lng], { icon: waypointIcon(i + 1) })
+        .bindPopup(`<div class="text-sm font-bold">Stop ${i + 1}</div><div class="text-xs">${escapeHtml(w.label)}</div>`)
+        .addTo(markersRef.current!);
+    });
+    
     if (endPoint) {
       L.marker([endPoint.lat, endPoint.lng], { icon: endIcon })
         .bindPopup('<div class="text-sm font-bold">Destination</div><div class="text-xs">Your target location</div>')
@@ -1206,8 +2932,50 @@ function MapViewComponent({
       L.marker([currentLocation.lat, currentLocation.lng], { icon: currentLocationIcon })
         .bindPopup('<div class="text-sm font-bold">You are here</div>')
         .addTo(markersRef.current);
+      if (followLocation) mapRef.current?.panTo([currentLocation.lat, currentLocation.lng]);
+    }
+  }, [startPoint, endPoint, waypoints, currentLocation, followLocation]);
+
+  // Position picked on the elevation chart
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!highlightPoint) {
+      highlightRef.current?.remove();
+      highlightRef.current = null;
+      return;
+    }
+    if (highlightRef.current) {
+      highlightRef.current.setLatLng([highlightPoint.lat, highlightPoint.lng]);
+    } else {
+      highlightRef.current = L.circleMarker([highlightPoint.lat, highlightPoint.lng], {
+        radius: 7, color: '#ffffff', weight: 2, fillColor: '#0f172a', fillOpacity: 1,
+      }).addTo(map);
+    }
+  }, [highlightPoint]);
+
+  // Reachable areas as bands, each the part reachable within its budget but
+  // not the one before
+  useEffect(() => {
+    if (!reachLayerRef.current) return;
+    reachLayerRef.current.clearLayers();
+    
+    const rings = isochrones
+      .map((area, i) => ({ ...area, color: ISOCHRONE_COLORS[Math.min(i, ISOCHRONE_COLORS.length - 1)] }))
+      .reverse();
+    rings.forEach(({ geometry, color }) => {
+      if (!geometry) return;
+      L.geoJSON(geometry, {
+        style: { color, weight: 1, opacity: 0.8, fillColor: color, fillOpacity: 0.2 },
+        interactive: false,
+      }).addTo(reachLayerRef.current!);
+    });
+    
+    const outer = rings.find(r => r.geometry);
+    if (outer && mapRef.current) {
+      mapRef.current.fitBounds(L.geoJSON(outer.geometry!).getBounds(), { padding: [40, 40] });
     }
-  }, [startPoint, endPoint, currentLocation]);
+  }, [isochrones]);
 
   // Update route
   useEffect(() => {
@@ -1216,6 +2984,26 @@ function MapViewComponent({
     
     if (!route) return;
     
+    // Routes not chosen go underneath, each in its own style
+    routeOptions.forEach((option, i) => {
+      if (option === route) return;
+      const style = ROUTE_OPTION_STYLES[i % ROUTE_OPTION_STYLES.length];
+      L.polyline(routeCoordinates(option), {
+        color: style.color,
+        dashArray: style.dashArray,
+        weight: 5,
+        opacity: 0.7,
+        lineCap: 'round',
+        lineJoin: 'round',
+      })
+      .bindTooltip(`${option.variant ? ROUTE_VARIANT_LABELS[option.variant] : `Route ${i + 1}`} – click to follow`, { sticky: true })
+      .on('click', (e) => {
+        L.DomEvent.stopPropagation(e);
+        onRouteSelect?.(option);
+      })
+      .addTo(routeLayerRef.current!);
+    });
+    
     route.segments.forEach((seg) => {
       if (seg.coordinates.length < 2) return;
       const color = ROUTE_COLORS[seg.accessibility];
@@ -1226,7 +3014,8 @@ function MapViewComponent({
         weight: 6, 
         opacity: 0.9, 
         lineCap: 'round', 
-        lineJoin: 'round' 
+        lineJoin: 'round',
+        dashArray: route.simulated ? '4 12' : undefined,
       })
       .bindPopup(`
         <div class="text-xs">
@@ -1247,7 +3036,7 @@ function MapViewComponent({
         lineJoin: 'round' 
       }).addTo(routeLayerRef.current!);
     });
-  }, [route]);
+  }, [route, routeOptions, onRouteSelect]);
 
   // Update hazards and reports
   useEffect(() => {
@@ -1261,29 +3050,75 @@ function MapViewComponent({
           <div class="text-xs">
             <b style="color:${color}">${h.category}</b><br/>
             ${h.description}
+            ${h.source === 'overpass' ? '<br/><i style="color:#64748b">Source: live OpenStreetMap (fallback, not verified)</i>' : ''}
           </div>
         `)
         .addTo(hazardLayerRef.current!);
     });
     
     reports.forEach((r) => {
-      L.marker([r.lat, r.lng], { icon: createIcon('#f59e0b', 12) })
+      // Low-confidence reports are drawn smaller and fainter
+      const confidence = r.confidence ?? 0.5;
+      const marker = L.marker([r.lat, r.lng], {
+        icon: createIcon('#f59e0b', Math.round(8 + 8 * confidence)),
+        opacity: 0.35 + 0.65 * confidence,
+      });
+      marker
         .bindPopup(`
           <div class="text-xs">
             <b>User Report</b><br/>
             ${r.type.replace('_', ' ')}<br/>
-            ${r.description}<br/>
+            ${escapeHtml(r.description)}<br/>
+            ${r.photoUrl ? `<img src="${escapeHtml(r.photoUrl)}" alt="Report photo" style="max-width:180px;margin:4px 0;border-radius:6px"/>` : ''}
             <span class="text-gray-500">${new Date(r.timestamp).toLocaleDateString()}</span>
+            ${r.pending ? '<br/><span class="text-orange-600">Not sent yet – will retry when online</span>' : ''}
+            ${r.status === 'confirmed' ? `<br/><span class="text-green-700">Confirmed by ${r.confirmCount} ${r.confirmCount === 1 ? 'person' : 'people'}</span>` : ''}
+            ${r.expiresAt ? `<br/><span class="text-gray-500">Expires ${new Date(r.expiresAt).toLocaleDateString()}</span>` : ''}
+            ${!r.pending && onReportAction ? `
+              <div style="display:flex;gap:6px;margin-top:6px">
+                <button data-action="confirm" style="padding:2px 8px;border-radius:6px;background:#fef3c7">Still there</button>
+                <button data-action="resolve" style="padding:2px 8px;border-radius:6px;background:#dcfce7">Fixed</button>
+              </div>
+              <div style="display:flex;gap:6px;margin-top:4px;align-items:center">
+                <button data-action="upvote" title="Accurate" style="padding:2px 8px;border-radius:6px;background:#f1f5f9">▲ ${r.upvotes ?? 0}</button>
+                <button data-action="downvote" title="Not accurate" style="padding:2px 8px;border-radius:6px;background:#f1f5f9">▼ ${r.downvotes ?? 0}</button>
+                <span class="text-gray-500">${Math.round(confidence * 100)}% confidence</span>
+              </div>
+            ` : ''}
           </div>
         `)
         .addTo(hazardLayerRef.current!);
+      
+      marker.on('popupopen', (e: L.PopupEvent) => {
+        e.popup.getElement()?.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach((button) => {
+          button.onclick = () => {
+            marker.closePopup();
+            onReportAction?.(r, button.dataset.action as ReportAction);
+          };
+        });
+      });
+    });
+  }, [hazards, reports, onReportAction]);
+
+  // Update places from the database
+  useEffect(() => {
+    if (!placesLayerRef.current) return;
+    placesLayerRef.current.clearLayers();
+    
+    places.forEach((place) => {
+      L.marker([place.lat, place.lng], {
+        icon: createIcon(placeScoreColor(place.accessibilityScore), 18, '♿'),
+        title: place.name,
+      })
+        .on('click', () => onPlaceSelect?.(place))
+        .addTo(placesLayerRef.current!);
     });
-  }, [hazards, reports]);
+  }, [places, onPlaceSelect]);
 
   // Fly to location
   useEffect(() => {
     if (!mapRef.current || !flyTo) return;
-    mapRef.current.flyTo([flyTo.lat, flyTo.lng], 16, { duration: 1.5 });
+    mapRef.current.flyTo([flyTo.lat, flyTo.lng], flyTo.zoom ?? 16, { duration: 1.5 });
   }, [flyTo]);
 
   return <div ref={containerRef} className="absolute inset-0" />;
@@ -1398,13 +3233,17 @@ function MapStyleSwitcherComponent({ current, onChange }: { current: string; onC
   );
 }
 
-function ReportIssueComponent({ lat, lng, onClose, onSaved }: { lat: number; lng: number; onClose: () => void; onSaved: () => void }) {
+function ReportIssueComponent({ lat, lng, onClose, onSaved }: { lat: number; lng: number; onClose: () => void; onSaved: (report: IssueReport) => void }) {
   const [type, setType] = useState<typeof ISSUE_TYPES[number]['value']>('blocked_sidewalk');
   const [description, setDescription] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   
-  const handleSubmit = () => { 
-    saveReport({ lat, lng, type, description }); 
-    onSaved(); 
+  const handleSubmit = async () => { 
+    setIsSubmitting(true);
+    const report = await submitReport({ lat, lng, type, description }, photo);
+    setIsSubmitting(false);
+    onSaved(report); 
     onClose(); 
   };
   
@@ -1449,6 +3288,18 @@ function ReportIssueComponent({ lat, lng, onClose, onSaved }: { lat: number; lng
           className="w-full bg-slate-50 rounded-xl px-4 py-3 text-sm text-slate-700 placeholder:text-slate-400 outline-none resize-none h-24 border border-slate-200 focus:border-blue-500 transition-colors"
         />
         
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <Camera className="w-4 h-4 text-slate-400" />
+          <span className="truncate">{photo ? photo.name : 'Add a photo (optional)'}</span>
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+          />
+        </label>
+        
         <div className="flex gap-3">
           <button 
             onClick={onClose} 
@@ -1458,11 +3309,654 @@ function ReportIssueComponent({ lat, lng, onClose, onSaved }: { lat: number; lng
           </button>
           <button 
             onClick={handleSubmit} 
-            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white rounded-xl py-3 text-sm font-medium transition-colors"
-            disabled={!description.trim()}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white rounded-xl py-3 text-sm font-medium transition-colors disabled:opacity-50"
+            disabled={!description.trim() || isSubmitting}
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit Report'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// NEARBY SERVICES COMPONENT
+// ═══════════════════════════════════════════════════════════
+
+function NearbyServicesPanelComponent({
+  origin,
+  profileId,
+  onClose,
+  onSelect,
+  onNavigate,
+}: {
+  origin: { lat: number; lng: number };
+  profileId: MobilityProfile['id'];
+  onClose: () => void;
+  onSelect: (place: Place) => void;
+  onNavigate: (place: Place) => void;
+}) {
+  const [categories, setCategories] = useState<string[]>([]);
+  const [sort, setSort] = useState<ServiceSort>('distance');
+  const [page, setPage] = useState<NearbyServicesPage | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const { lat, lng } = origin;
+  
+  useEffect(() => {
+    let cancelled = false;
+    fetchNearbyServices({ lat, lng }, profileId, { categories, sort, offset: 0 })
+      .then(first => {
+        if (cancelled) return;
+        setPage(first);
+        setLoadError(null);
+      })
+      .catch(error => {
+        console.error('Failed to load nearby services:', error);
+        if (!cancelled) setLoadError('Could not load nearby services.');
+      });
+    return () => { cancelled = true; };
+  }, [lat, lng, profileId, categories, sort]);
+  
+  const handleLoadMore = async () => {
+    if (!page) return;
+    setIsLoadingMore(true);
+    try {
+      const next = await fetchNearbyServices({ lat, lng }, profileId, { categories, sort, offset: page.services.length });
+      setPage({ ...next, services: [...page.services, ...next.services] });
+    } catch (error) {
+      console.error('Failed to load more services:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+  
+  const toggleCategory = (category: string) => {
+    setCategories(categories.includes(category) ? categories.filter(c => c !== category) : [...categories, category]);
+  };
+
+  return (
+    <div className="absolute left-4 top-20 bottom-4 w-96 bg-white rounded-2xl shadow-2xl border border-slate-200 z-[1000] flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-5 border-b border-slate-100 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Nearby accessible services</h2>
+          <p className="text-xs text-slate-500">Distances along paths usable with your mobility profile</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+          <X className="w-5 h-5 text-slate-500" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {/* Sort */}
+        <div className="flex bg-slate-100 rounded-xl p-1">
+          {([['distance', 'Nearest'], ['accessibility', 'Most accessible']] as [ServiceSort, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setSort(id)}
+              className={`flex-1 text-xs font-medium py-2 rounded-lg transition-colors ${
+                sort === id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Category facets */}
+        {page && page.facets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {page.facets.map(({ category, count }) => (
+              <button
+                key={category}
+                onClick={() => toggleCategory(category)}
+                className={`text-xs px-3 py-1 rounded-full border capitalize transition-colors ${
+                  categories.includes(category)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {category.replace(/_/g, ' ')} <span className="opacity-70">{count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+        {!page && !loadError && <p className="text-sm text-slate-500">Loading...</p>}
+        {page && page.services.length === 0 && (
+          <p className="text-sm text-slate-500">No accessible services found nearby.</p>
+        )}
+
+        {/* Results */}
+        {page && page.services.length > 0 && (
+          <ul className="space-y-2">
+            {page.services.map(service => (
+              <li key={service.id} className="border border-slate-100 rounded-xl p-3 flex items-start gap-3">
+                <div
+                  className="w-10 h-10 rounded-xl flex items-center justify-center text-white text-sm font-bold flex-shrink-0"
+                  style={{ background: placeScoreColor(service.accessibilityScore) }}
+                  title="Accessibility score out of 10"
+                >
+                  {service.accessibilityScore ?? '–'}
+                </div>
+                <button onClick={() => onSelect(service)} className="flex-1 min-w-0 text-left">
+                  <p className="text-sm font-medium text-slate-700 truncate">{service.name}</p>
+                  <p className="text-xs text-slate-500 capitalize">{service.category?.replace(/_/g, ' ')}</p>
+                  <p className="text-xs text-slate-600 mt-1">
+                    {service.networkDistance !== null && service.travelTime !== null
+                      ? `${formatStepDistance(service.networkDistance)} · ${Math.ceil(service.travelTime / 60)} min`
+                      : `${formatStepDistance(service.distance)} away · no accessible path found`}
+                  </p>
+                </button>
+                <button
+                  onClick={() => onNavigate(service)}
+                  disabled={service.networkDistance === null}
+                  title="Route here"
+                  className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 disabled:opacity-40 transition-colors"
+                >
+                  <Navigation className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {page && page.services.length < page.total && (
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="w-full py-2 rounded-xl border border-slate-200 text-sm text-slate-600 hover:bg-slate-50 disabled:opacity-50 transition-colors"
           >
-            Submit Report
+            {isLoadingMore ? 'Loading...' : `Show more (${page.total - page.services.length})`}
           </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// REACHABILITY COMPONENT
+// ═══════════════════════════════════════════════════════════
+
+function ReachabilityPanelComponent({
+  origin,
+  profile,
+  preferences,
+  chairType,
+  isochrones,
+  onChange,
+  onClose,
+}: {
+  origin: { lat: number; lng: number };
+  profile: MobilityProfile;
+  preferences: RoutePreferences;
+  chairType: ChairSettings['type'];
+  isochrones: Isochrone[];
+  onChange: (isochrones: Isochrone[]) => void;
+  onClose: () => void;
+}) {
+  const [budget, setBudget] = useState<ReachBudget>('time');
+  const [maxIncline, setMaxIncline] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const { lat, lng } = origin;
+  const inclineLimits = REACH_INCLINE_LIMITS.filter(limit => limit < profile.maxInclinePercent);
+  
+  useEffect(() => {
+    let cancelled = false;
+    fetchIsochrones({ lat, lng }, profile.id, preferences, { budget, maxIncline, chairType })
+      .then(areas => {
+        if (cancelled) return;
+        onChange(areas);
+        setLoadError(null);
+      })
+      .catch(error => {
+        console.error('Failed to load reachable area:', error);
+        if (cancelled) return;
+        onChange([]);
+        setLoadError(error instanceof Error ? error.message : 'Could not load the reachable area.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [lat, lng, profile.id, preferences, budget, maxIncline, chairType, onChange]);
+  
+  const choose = (update: () => void) => {
+    setIsLoading(true);
+    update();
+  };
+
+  return (
+    <div className="absolute left-4 top-20 w-80 bg-white rounded-2xl shadow-2xl border border-slate-200 z-[1000] overflow-hidden">
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-slate-100 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">Where can I get to?</h2>
+          <p className="text-xs text-slate-500">Along paths usable with your mobility profile</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+          <X className="w-5 h-5 text-slate-500" />
+        </button>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {/* Budget */}
+        <div className="flex bg-slate-100 rounded-xl p-1">
+          {([['time', 'Travel time'], ['effort', 'Effort']] as [ReachBudget, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => choose(() => setBudget(id))}
+              className={`flex-1 text-xs font-medium py-2 rounded-lg transition-colors ${
+                budget === id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {budget === 'effort' && (
+          <p className="text-xs text-slate-500">Climbs and rough surfaces use up minutes faster than flat, smooth paths, as they would pushing or driving your chair.</p>
+        )}
+
+        {/* Max incline */}
+        <div>
+          <p className="text-xs font-medium text-slate-500 mb-2">Steepest incline</p>
+          <div className="flex flex-wrap gap-2">
+            {[null, ...inclineLimits].map(limit => (
+              <button
+                key={limit ?? 'profile'}
+                onClick={() => choose(() => setMaxIncline(limit))}
+                className={`px-3 py-1.5 rounded-full text-xs border transition-colors ${
+                  maxIncline === limit
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {limit === null ? `Profile (${profile.maxInclinePercent}%)` : `${limit}%`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Rings */}
+        <div className="space-y-2">
+          {ISOCHRONE_MINUTES.map((minutes, i) => {
+            const area = isochrones.find(a => a.minutes === minutes);
+            return (
+              <div key={minutes} className="flex items-center gap-3">
+                <div
+                  className="w-6 h-3 rounded-sm border"
+                  style={{ backgroundColor: `${ISOCHRONE_COLORS[i]}66`, borderColor: ISOCHRONE_COLORS[i] }}
+                />
+                <span className="text-sm text-slate-600">
+                  {minutes} min{area && !area.geometry ? (i === 0 ? ' – nothing reachable' : ' – nothing further') : ''}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {isLoading && <p className="text-xs text-slate-500">Working out the reachable area...</p>}
+        {loadError && <p className="text-xs text-red-600">{loadError}</p>}
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// PLACE DETAIL COMPONENT
+// ═══════════════════════════════════════════════════════════
+
+const YES_NO_OPTIONS: { value: boolean | null; label: string }[] = [
+  { value: true, label: 'Yes' },
+  { value: false, label: 'No' },
+  { value: null, label: 'Not sure' },
+];
+
+function FeatureFlag({ label, value }: { label: string; value: boolean | null }) {
+  return (
+    <div className="flex items-center justify-between text-sm py-1">
+      <span className="text-slate-600">{label}</span>
+      {value === null ? (
+        <span className="text-xs text-slate-400">Unknown</span>
+      ) : value ? (
+        <span className="flex items-center gap-1 text-xs text-green-600"><CheckCircle className="w-3.5 h-3.5" /> Yes</span>
+      ) : (
+        <span className="flex items-center gap-1 text-xs text-red-600"><X className="w-3.5 h-3.5" /> No</span>
+      )}
+    </div>
+  );
+}
+
+function PlaceDetailPanelComponent({
+  placeId,
+  onClose,
+  onNavigate,
+}: {
+  placeId: string;
+  onClose: () => void;
+  onNavigate: (place: Place) => void;
+}) {
+  const [place, setPlace] = useState<Place | null>(null);
+  const [reviews, setReviews] = useState<PlaceReview[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [review, setReview] = useState<NewPlaceReview>({ rating: 0, comment: '', entryAccessible: null, spaceManeuverable: null });
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [placeData, reviewData] = await Promise.all([fetchPlace(placeId), fetchPlaceReviews(placeId)]);
+      setPlace(placeData);
+      setReviews(reviewData);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Failed to load place:', error);
+      setLoadError('Could not load this place.');
+    }
+  }, [placeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await submitPlaceReview(placeId, review, photo);
+      setReview({ rating: 0, comment: '', entryAccessible: null, spaceManeuverable: null });
+      setPhoto(null);
+      await load();
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Could not save your review.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="absolute left-4 top-20 bottom-4 w-96 bg-white rounded-2xl shadow-2xl border border-slate-200 z-[1000] flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-5 border-b border-slate-100 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-slate-800 truncate">{place?.name ?? 'Loading...'}</h2>
+          {place?.category && <p className="text-xs text-slate-500 capitalize">{place.category.replace(/_/g, ' ')}</p>}
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+          <X className="w-5 h-5 text-slate-500" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+        {place && (
+          <>
+            {/* Score */}
+            <div className="flex items-center gap-4">
+              <div
+                className="w-16 h-16 rounded-2xl flex flex-col items-center justify-center text-white"
+                style={{ background: placeScoreColor(place.accessibilityScore) }}
+              >
+                <span className="text-xl font-bold">{place.accessibilityScore ?? '–'}</span>
+                <span className="text-[10px]">/ 10</span>
+              </div>
+              <div className="text-sm text-slate-600">
+                <p>{place.reviewCount} review{place.reviewCount === 1 ? '' : 's'}</p>
+                {place.avgScore !== null && <p>Average rating {place.avgScore.toFixed(1)} / 5</p>}
+              </div>
+            </div>
+
+            {place.scoreBreakdown && (
+              <div className="space-y-1.5">
+                {Object.entries(place.scoreBreakdown)
+                  .filter(([, value]) => value !== null)
+                  .map(([name, value]) => (
+                    <div key={name} className="flex items-center gap-2 text-xs">
+                      <span className="w-16 text-slate-500 capitalize">{name}</span>
+                      <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full rounded-full" style={{ width: `${(value as number) * 10}%`, background: placeScoreColor(value) }} />
+                      </div>
+                      <span className="w-6 text-right text-slate-600">{value}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            {/* Feature flags */}
+            <div className="divide-y divide-slate-100">
+              <FeatureFlag
+                label="Wheelchair accessible"
+                value={place.wheelchairAccessible === null ? null : !['no', 'false', '0'].includes(place.wheelchairAccessible.toLowerCase())}
+              />
+              <FeatureFlag label="Ramp" value={place.hasRamp} />
+              <FeatureFlag label="Accessible toilet" value={place.hasAccessibleToilet} />
+              <FeatureFlag label="Step-free entry (reviewers)" value={place.entryAccessible} />
+              <FeatureFlag label="Room to manoeuvre (reviewers)" value={place.spaceManeuverable} />
+            </div>
+
+            {/* Photos */}
+            {place.photos && place.photos.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {place.photos.map((url) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={url} alt={`Photo of ${place.name}`} className="w-full h-20 object-cover rounded-lg" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={() => onNavigate(place)}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-xl py-3 text-sm font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <Navigation className="w-4 h-4" />
+              Navigate here
+            </button>
+
+            {/* Reviews */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-slate-700">Reviews</h3>
+              {reviews.length === 0 && <p className="text-xs text-slate-500">No reviews yet.</p>}
+              {reviews.map((r) => (
+                <div key={r.id} className="border-b border-slate-100 pb-3 last:border-0">
+                  <div className="flex items-center justify-between">
+                    <span className="text-amber-500 text-sm">{'★'.repeat(r.rating)}{'☆'.repeat(5 - r.rating)}</span>
+                    <span className="text-xs text-slate-400">{new Date(r.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  {r.comment && <p className="text-sm text-slate-600 mt-1">{r.comment}</p>}
+                  <div className="flex gap-2 mt-1 text-[11px] text-slate-500">
+                    {r.entryAccessible !== null && <span>Entry: {r.entryAccessible ? 'accessible' : 'not accessible'}</span>}
+                    {r.spaceManeuverable !== null && <span>Space: {r.spaceManeuverable ? 'enough' : 'cramped'}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Add a review */}
+            <div className="space-y-3 bg-slate-50 rounded-xl p-4">
+              <h3 className="text-sm font-semibold text-slate-700">Add a review</h3>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => setReview({ ...review, rating: n })}
+                    className={`text-2xl ${n <= review.rating ? 'text-amber-500' : 'text-slate-300'}`}
+                    aria-label={`${n} star${n === 1 ? '' : 's'}`}
+                  >
+                    ★
+                  </button>
+                ))}
+              </div>
+              {([
+                { key: 'entryAccessible', label: 'Step-free entry?' },
+                { key: 'spaceManeuverable', label: 'Enough room inside?' },
+              ] as const).map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between text-xs">
+                  <span className="text-slate-600">{label}</span>
+                  <div className="flex gap-1">
+                    {YES_NO_OPTIONS.map((option) => (
+                      <button
+                        key={option.label}
+                        onClick={() => setReview({ ...review, [key]: option.value })}
+                        className={`px-2 py-1 rounded-lg ${
+                          review[key] === option.value ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 border border-slate-200'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <textarea
+                placeholder="What was it like?"
+                value={review.comment}
+                onChange={(e) => setReview({ ...review, comment: e.target.value })}
+                className="w-full bg-white rounded-xl px-3 py-2 text-sm text-slate-700 placeholder:text-slate-400 outline-none resize-none h-20 border border-slate-200 focus:border-blue-500"
+              />
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <Camera className="w-4 h-4 text-slate-400" />
+                <span className="truncate">{photo ? photo.name : 'Add a photo (optional)'}</span>
+                <input type="file" accept="image/*" className="hidden" onChange={(e) => setPhoto(e.target.files?.[0] ?? null)} />
+              </label>
+              {submitError && <p className="text-xs text-red-600">{submitError}</p>}
+              <button
+                onClick={handleSubmit}
+                disabled={review.rating === 0 || isSubmitting}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-xl py-2.5 text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Submit review'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// ELEVATION CHART COMPONENT
+// ═══════════════════════════════════════════════════════════
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 110;
+
+function ElevationChartComponent({
+  profile,
+  maxInclinePercent,
+  onHover,
+}: {
+  profile: ElevationPoint[];
+  maxInclinePercent: number;
+  onHover: (distance: number | null) => void;
+}) {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  
+  const total = profile[profile.length - 1].distance || 1;
+  const elevations = profile.map(p => p.elevation);
+  const min = Math.min(...elevations);
+  // At least 10 m of range, so a flat route does not look mountainous
+  const range = Math.max(Math.max(...elevations) - min, 10);
+  const grades = profileGrades(profile);
+  const gradeRange = Math.max(maxInclinePercent * 1.5, ...grades.map(Math.abs));
+  const stats = elevationStats(profile);
+  
+  const x = (distance: number) => (distance / total) * CHART_WIDTH;
+  const y = (elevation: number) => CHART_HEIGHT - 6 - ((elevation - min) / range) * (CHART_HEIGHT - 16);
+  const gy = (grade: number) => CHART_HEIGHT / 2 - (grade / gradeRange) * (CHART_HEIGHT / 2 - 4);
+  
+  const line = profile.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.distance).toFixed(1)},${y(p.elevation).toFixed(1)}`).join('');
+  const gradeLine = profile.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.distance).toFixed(1)},${gy(grades[i]).toFixed(1)}`).join('');
+  
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const distance = ((e.clientX - rect.left) / rect.width) * total;
+    const idx = profile.reduce((best, p, i) =>
+      Math.abs(p.distance - distance) < Math.abs(profile[best].distance - distance) ? i : best, 0);
+    setHoverIdx(idx);
+    onHover(profile[idx].distance);
+  };
+  
+  const handleLeave = () => {
+    setHoverIdx(null);
+    onHover(null);
+  };
+  
+  const hover = hoverIdx === null ? null : profile[hoverIdx];
+  
+  return (
+    <div>
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-28 cursor-crosshair"
+          onMouseMove={handleMove}
+          onMouseLeave={handleLeave}
+        >
+          <path d={`${line}L${CHART_WIDTH},${CHART_HEIGHT}L0,${CHART_HEIGHT}Z`} fill="#e2e8f0" />
+          {profile.slice(1).map((p, i) => {
+            const severity = gradeSeverity(grades[i + 1], maxInclinePercent);
+            if (!severity) return null;
+            const a = profile[i];
+            return (
+              <path
+                key={i}
+                d={`M${x(a.distance)},${y(a.elevation)}L${x(p.distance)},${y(p.elevation)}L${x(p.distance)},${CHART_HEIGHT}L${x(a.distance)},${CHART_HEIGHT}Z`}
+                fill={ROUTE_COLORS[severity]}
+                opacity={0.7}
+              />
+            );
+          })}
+          <path d={line} fill="none" stroke="#334155" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT / 2} y2={CHART_HEIGHT / 2} stroke="#cbd5e1" strokeDasharray="2 3" vectorEffect="non-scaling-stroke" />
+          <path d={gradeLine} fill="none" stroke="#3b82f6" strokeWidth={1} opacity={0.6} vectorEffect="non-scaling-stroke" />
+          {hover && (
+            <line x1={x(hover.distance)} x2={x(hover.distance)} y1={0} y2={CHART_HEIGHT} stroke="#0f172a" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          )}
+        </svg>
+        {hover && hoverIdx !== null && (
+          <div
+            className="absolute top-0 -translate-x-1/2 bg-slate-900 text-white text-[11px] rounded-md px-2 py-1 pointer-events-none whitespace-nowrap"
+            style={{ left: `${Math.min(Math.max((hover.distance / total) * 100, 15), 85)}%` }}
+          >
+            {formatStepDistance(hover.distance)} · {Math.round(hover.elevation)} m · {grades[hoverIdx].toFixed(1)}%
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-slate-500">
+        <span>0 km</span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-3 h-0.5 bg-slate-700" />elevation
+          <span className="inline-block w-3 h-0.5 bg-blue-500" />grade
+        </span>
+        <span>{(total / 1000).toFixed(1)} km</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+        <div className="bg-slate-50 rounded-lg py-2">
+          <p className="text-sm font-semibold text-slate-700">↑ {Math.round(stats.climb)} m</p>
+          <p className="text-[11px] text-slate-500">Total climb</p>
+        </div>
+        <div className="bg-slate-50 rounded-lg py-2">
+          <p className="text-sm font-semibold text-slate-700">↓ {Math.round(stats.descent)} m</p>
+          <p className="text-[11px] text-slate-500">Total descent</p>
+        </div>
+        <div className={`rounded-lg py-2 ${
+          gradeSeverity(stats.steepestGrade, maxInclinePercent) === 'hazard' ? 'bg-red-50' :
+          gradeSeverity(stats.steepestGrade, maxInclinePercent) === 'caution' ? 'bg-orange-50' : 'bg-slate-50'
+        }`}>
+          <p className="text-sm font-semibold text-slate-700">{stats.steepestGrade.toFixed(1)}%</p>
+          <p className="text-[11px] text-slate-500">Steepest over {Math.round(stats.steepestLength)} m</p>
         </div>
       </div>
     </div>
@@ -1473,11 +3967,46 @@ function ReportIssueComponent({ lat, lng, onClose, onSaved }: { lat: number; lng
 // ROUTE PANEL COMPONENT
 // ═══════════════════════════════════════════════════════════
 
+const MANEUVER_ICONS: Record<Maneuver, typeof ArrowUp> = {
+  depart: Navigation,
+  straight: ArrowUp,
+  'slight-left': CornerUpLeft,
+  'slight-right': CornerUpRight,
+  left: ArrowLeft,
+  right: ArrowRight,
+  'sharp-left': CornerUpLeft,
+  'sharp-right': CornerUpRight,
+  'u-turn': RotateCcw,
+  roundabout: RefreshCw,
+  arrive: Flag,
+};
+
+const formatStepDistance = (metres: number) =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(1)} km` : `${Math.round(metres)} m`;
+
+// "18%" of the battery for powered chairs, the push rating for manual ones
+const formatEffort = (effort: RouteEffort) =>
+  effort.batteryPercent !== null
+    ? `${Math.max(1, Math.round(effort.batteryPercent))}%`
+    : effort.rating.charAt(0).toUpperCase() + effort.rating.slice(1);
+
 function RoutePanelComponent({
   route,
   startLabel,
   endLabel,
   onClose,
+  onInstructionSelect,
+  onStartNavigation,
+  onReadAloud,
+  onElevationHover,
+  options = [],
+  onSelectOption,
+  waypoints = [],
+  onReorderStops,
+  onRemoveStop,
+  onInsertToiletStop,
+  onAddPlaceStop,
+  chair = DEFAULT_CHAIR,
   startCoords,
   endCoords,
 }: {
@@ -1485,11 +4014,38 @@ function RoutePanelComponent({
   startLabel?: string;
   endLabel?: string;
   onClose: () => void;
+  onInstructionSelect: (instruction: RouteInstruction) => void;
+  onStartNavigation: () => void;
+  onReadAloud: () => void;
+  onElevationHover: (point: { lat: number; lng: number } | null) => void;
+  options?: RouteResult[];
+  onSelectOption?: (route: RouteResult) => void;
+  waypoints?: Waypoint[];
+  onReorderStops?: (from: number, to: number) => void;
+  onRemoveStop?: (id: string) => void;
+  onInsertToiletStop?: () => Promise<void>;
+  onAddPlaceStop?: (place: PlaceAlongRoute) => void;
+  chair?: ChairSettings;
   startCoords?: { lat: number; lng: number };
   endCoords?: { lat: number; lng: number };
 }) {
+  const [showDirections, setShowDirections] = useState(true);
   const [showElevation, setShowElevation] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [findingToilet, setFindingToilet] = useState(false);
+  const [showAlongRoute, setShowAlongRoute] = useState(false);
+  const [amenityFilters, setAmenityFilters] = useState<AmenityFilter[]>(['toilet']);
+  const [alongRoute, setAlongRoute] = useState<PlaceAlongRoute[]>([]);
+  
+  useEffect(() => {
+    if (!route || !showAlongRoute) return;
+    let cancelled = false;
+    fetchPlacesAlongRoute(route, amenityFilters).then(found => {
+      if (!cancelled) setAlongRoute(found);
+    });
+    return () => { cancelled = true; };
+  }, [route, showAlongRoute, amenityFilters]);
   
   if (!route) return null;
 
@@ -1497,18 +4053,20 @@ function RoutePanelComponent({
   const timeMin = Math.ceil(route.estimatedTime / 60);
   const timeHours = timeMin > 60 ? `${Math.floor(timeMin / 60)}h ${timeMin % 60}m` : `${timeMin} min`;
 
-  // Calculate percentages
-  const safeCount = route.segments.filter(s => s.accessibility === 'safe').length;
-  const cautionCount = route.segments.filter(s => s.accessibility === 'caution').length;
-  const hazardCount = route.segments.filter(s => s.accessibility === 'hazard').length;
-  const total = route.segments.length || 1;
-  
-  const safePercent = Math.round((safeCount / total) * 100);
-  const cautionPercent = Math.round((cautionCount / total) * 100);
-  const hazardPercent = Math.round((hazardCount / total) * 100);
+  const { safePercent, cautionPercent, hazardPercent } = summarizeRoute(route);
+  const effort = routeEffort(route, chair);
+
+  const handleInsertToilet = async () => {
+    setFindingToilet(true);
+    try {
+      await onInsertToiletStop?.();
+    } finally {
+      setFindingToilet(false);
+    }
+  };
 
   const handleExportGPX = () => {
-    const gpx = exportRouteAsGPX(route.segments);
+    const gpx = exportRouteAsGPX(route);
     const blob = new Blob([gpx], { type: 'application/gpx+xml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -1531,7 +4089,15 @@ function RoutePanelComponent({
       {/* Header */}
       <div className="px-6 py-5 border-b border-slate-100">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-bold text-slate-800">Accessible Route</h2>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Accessible Route</h2>
+            {route.profile && (
+              <p className="text-xs text-slate-500">For {MOBILITY_PROFILES[route.profile].label}</p>
+            )}
+            {route.provider && (
+              <p className="text-xs text-slate-400">Routed by {ROUTING_PROVIDERS[route.provider].label}</p>
+            )}
+          </div>
           <button 
             onClick={onClose}
             className="p-2 hover:bg-slate-100 rounded-xl transition-colors"
@@ -1543,6 +4109,16 @@ function RoutePanelComponent({
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {route.simulated && (
+          <div className="bg-red-50 border-2 border-red-500 rounded-xl p-4">
+            <p className="text-sm font-bold text-red-700">Simulated route</p>
+            <p className="text-xs text-red-700 mt-1">
+              No routing service was available. This line was generated for demonstration and does not follow
+              real streets, so its distance, time and accessibility ratings are not real.
+            </p>
+          </div>
+        )}
+
         {/* Destination */}
         <div className="space-y-3">
           <div className="flex items-start gap-3">
@@ -1580,6 +4156,171 @@ function RoutePanelComponent({
           </div>
         </div>
 
+        {/* Effort */}
+        <div className={`rounded-xl p-4 ${effort.overLimit ? 'bg-red-50' : 'bg-slate-50'}`}>
+          <div className="flex items-center gap-2 text-slate-500 mb-1">
+            {chair.type === 'powered' ? <Battery className="w-4 h-4" /> : <Activity className="w-4 h-4" />}
+            <span className="text-xs">{chair.type === 'powered' ? 'Estimated battery used' : 'Pushing effort'}</span>
+          </div>
+          <p className="text-2xl font-bold text-slate-800">
+            {formatEffort(effort)}
+            <span className="text-sm font-normal text-slate-500">
+              {' '}{effort.batteryWh !== null ? `${Math.round(effort.batteryWh)} Wh` : `${Math.round(effort.energyKj)} kJ`}
+              {effort.climb > 0 && ` · ${effort.climb} m climb`}
+            </span>
+          </p>
+          {effort.overLimit && (
+            <p className="text-xs text-red-700 mt-1">More than the effort limit in your settings.</p>
+          )}
+        </div>
+
+        {/* Stops */}
+        <div className="space-y-2">
+          {waypoints.length > 0 && (
+            <>
+              <p className="text-sm font-medium text-slate-700">Stops</p>
+              <ol className="space-y-1">
+                {waypoints.map((w, i) => (
+                  <li
+                    key={w.id}
+                    draggable
+                    onDragStart={() => setDragIndex(i)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => {
+                      if (dragIndex !== null && dragIndex !== i) onReorderStops?.(dragIndex, i);
+                      setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`flex items-center gap-2 rounded-lg px-2 py-2 border ${
+                      dragIndex === i ? 'border-blue-300 bg-blue-50' : 'border-slate-100 bg-slate-50'
+                    }`}
+                  >
+                    <GripVertical className="w-4 h-4 text-slate-400 cursor-grab flex-shrink-0" />
+                    <span className="w-5 h-5 rounded-full bg-amber-500 text-white text-[11px] font-bold flex items-center justify-center flex-shrink-0">
+                      {i + 1}
+                    </span>
+                    <span className="flex-1 text-sm text-slate-700 truncate">{w.label}</span>
+                    <button
+                      onClick={() => onRemoveStop?.(w.id)}
+                      title="Remove stop"
+                      className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              <p className="text-xs text-slate-400">Drag to reorder. Long-press the map to add a stop.</p>
+            </>
+          )}
+          {onInsertToiletStop && (
+            <button
+              onClick={handleInsertToilet}
+              disabled={findingToilet}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border border-slate-200 text-sm text-slate-600 hover:bg-slate-50 disabled:opacity-50 transition-colors"
+            >
+              <Toilet className="w-4 h-4" />
+              {findingToilet ? 'Looking for a toilet…' : 'Insert accessible toilet stop'}
+            </button>
+          )}
+        </div>
+
+        {/* Stops along your route */}
+        <div className="border border-slate-200 rounded-xl overflow-hidden">
+          <button
+            onClick={() => setShowAlongRoute(!showAlongRoute)}
+            className="w-full flex items-center justify-between px-4 py-3 bg-slate-50 hover:bg-slate-100 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <MapPin className="w-4 h-4 text-slate-500" />
+              <span className="text-sm font-medium text-slate-700">Stops along your route</span>
+            </div>
+            {showAlongRoute ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          {showAlongRoute && (
+            <div className="p-4 bg-white space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {AMENITY_FILTERS.map(({ id, label }) => {
+                  const active = amenityFilters.includes(id);
+                  return (
+                    <button
+                      key={id}
+                      onClick={() => setAmenityFilters(active ? amenityFilters.filter(f => f !== id) : [...amenityFilters, id])}
+                      className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                        active ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+              {alongRoute.length === 0 ? (
+                <p className="text-xs text-slate-500">Nothing matching within {DEFAULT_CORRIDOR_M} m of the route.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {alongRoute.map(place => {
+                    const added = waypoints.some(w => w.id === `place:${place.id}`);
+                    return (
+                      <li key={place.id} className="flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-slate-700 truncate">{place.name}</p>
+                          <p className="text-xs text-slate-500">
+                            {place.category?.replace(/_/g, ' ')} · at {formatStepDistance(place.along)} · {place.detour === null ? 'no accessible way there' : `+${formatStepDistance(place.detour)} detour`}
+                            {place.hasAccessibleToilet && ' · accessible toilet'}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => onAddPlaceStop?.(place)}
+                          disabled={added}
+                          className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg border border-slate-200 text-slate-600 hover:bg-amber-50 hover:text-amber-600 disabled:opacity-50 transition-colors"
+                        >
+                          <Plus className="w-3.5 h-3.5" />
+                          {added ? 'Added' : 'Add stop'}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Legs */}
+        {route.legs && route.legs.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Legs</p>
+            {route.legs.map((leg, i) => {
+              const summary = summarizeRoute({ ...route, segments: route.segments.slice(...leg.segmentRange) });
+              return (
+                <div key={i} className="rounded-lg border border-slate-100 px-3 py-2">
+                  <div className="flex justify-between gap-2 text-sm">
+                    <span className="text-slate-700 truncate">{leg.from} → {leg.to}</span>
+                    <span className="text-slate-500 whitespace-nowrap">
+                      {formatStepDistance(leg.distance)} · {Math.ceil(leg.estimatedTime / 60)} min
+                    </span>
+                  </div>
+                  <div className="flex h-1.5 mt-2 rounded-full overflow-hidden bg-slate-100">
+                    <div className="bg-green-500" style={{ width: `${summary.safePercent}%` }} />
+                    <div className="bg-orange-500" style={{ width: `${summary.cautionPercent}%` }} />
+                    <div className="bg-red-500" style={{ width: `${summary.hazardPercent}%` }} />
+                  </div>
+                  {(summary.maxIncline > 5 || summary.steps > 0 || summary.activeReports > 0) && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      {[
+                        summary.maxIncline > 5 && `up to ${summary.maxIncline.toFixed(1)}% incline`,
+                        summary.steps > 0 && `${summary.steps} flight(s) of steps`,
+                        summary.activeReports > 0 && `${summary.activeReports} report(s) nearby`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Accessibility Stats */}
         <div className="space-y-3">
           <p className="text-sm font-medium text-slate-700">Route Accessibility</p>
@@ -1634,6 +4375,74 @@ function RoutePanelComponent({
           </div>
         </div>
 
+        {/* Route Comparison */}
+        {options.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Compare Routes</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 text-left">
+                    <th className="font-medium py-1">Route</th>
+                    <th className="font-medium py-1 text-right">Dist.</th>
+                    <th className="font-medium py-1 text-right">Time</th>
+                    <th className="font-medium py-1 pl-2">Safe / caution / hazard</th>
+                    <th className="font-medium py-1 text-right" title="Maximum incline">Max ∠</th>
+                    <th className="font-medium py-1 text-right" title={chair.type === 'powered' ? 'Battery used' : 'Pushing effort'}>Effort</th>
+                    <th className="font-medium py-1 text-right">Steps</th>
+                    <th className="font-medium py-1 text-right" title="Active reports near the route">Reports</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {options.map((option, i) => {
+                    const summary = summarizeRoute(option);
+                    const optionEffort = routeEffort(option, chair);
+                    const style = ROUTE_OPTION_STYLES[i % ROUTE_OPTION_STYLES.length];
+                    const selected = option === route;
+                    return (
+                      <tr
+                        key={i}
+                        onClick={() => onSelectOption?.(option)}
+                        className={`cursor-pointer border-t border-slate-100 ${selected ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                      >
+                        <td className="py-2 pr-1">
+                          <div className="flex items-center gap-1.5">
+                            <svg width="18" height="6" className="flex-shrink-0">
+                              <line x1="1" y1="3" x2="17" y2="3" stroke={style.color} strokeWidth="3" strokeDasharray={style.dashArray?.split(' ').map(n => Number(n) / 2).join(' ')} />
+                            </svg>
+                            <span className={selected ? 'font-semibold text-slate-800' : 'text-slate-600'}>
+                              {option.variant ? ROUTE_VARIANT_LABELS[option.variant] : `Route ${i + 1}`}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="py-2 text-right text-slate-700">{(option.totalDistance / 1000).toFixed(1)} km</td>
+                        <td className="py-2 text-right text-slate-700">{Math.ceil(option.estimatedTime / 60)} min</td>
+                        <td className="py-2 pl-2">
+                          <div className="flex h-2 w-full min-w-12 rounded-full overflow-hidden bg-slate-100">
+                            <div className="bg-green-500" style={{ width: `${summary.safePercent}%` }} />
+                            <div className="bg-orange-500" style={{ width: `${summary.cautionPercent}%` }} />
+                            <div className="bg-red-500" style={{ width: `${summary.hazardPercent}%` }} />
+                          </div>
+                          <span className="text-[10px] text-slate-500">
+                            {summary.safePercent} / {summary.cautionPercent} / {summary.hazardPercent}%
+                          </span>
+                        </td>
+                        <td className="py-2 text-right text-slate-700">{summary.maxIncline.toFixed(1)}%</td>
+                        <td className={`py-2 text-right ${optionEffort.overLimit ? 'text-red-600' : 'text-slate-700'}`}>
+                          {formatEffort(optionEffort)}
+                        </td>
+                        <td className="py-2 text-right text-slate-700">{summary.steps}</td>
+                        <td className="py-2 text-right text-slate-700">{summary.activeReports}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-400">Tap a row or a line on the map to follow that route.</p>
+          </div>
+        )}
+
         {/* Warnings */}
         {route.warnings.length > 0 && (
           <div className="space-y-2">
@@ -1647,8 +4456,74 @@ function RoutePanelComponent({
           </div>
         )}
 
+        {/* Route Preferences */}
+        {route.preferences && route.preferences.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Your Preferences</p>
+            {route.preferences.map(({ key, status }) => (
+              <div key={key} className="flex items-center justify-between text-sm">
+                <span className="text-slate-600">
+                  {PREFERENCE_OPTIONS.find(o => o.key === key)?.label}
+                </span>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                  status === 'enforced' ? 'bg-green-100 text-green-700' :
+                  status === 'penalized' ? 'bg-orange-100 text-orange-700' : 'bg-slate-100 text-slate-500'
+                }`}>
+                  {status === 'enforced' ? 'Honored' : status === 'penalized' ? 'Preferred' : 'Not supported'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Navigation Options */}
         <div className="space-y-3">
+          {/* Turn-by-turn Directions */}
+          {route.instructions && route.instructions.length > 0 && (
+            <div className="border border-slate-200 rounded-xl overflow-hidden">
+              <button 
+                onClick={() => setShowDirections(!showDirections)}
+                className="w-full px-4 py-3 flex items-center justify-between bg-slate-50 hover:bg-slate-100 transition-colors"
+              >
+                <span className="font-medium text-slate-700">Directions</span>
+                {showDirections ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+              </button>
+              
+              {showDirections && (
+                <ol className="bg-white max-h-72 overflow-y-auto divide-y divide-slate-100">
+                  {route.instructions.map((step, idx) => {
+                    const Icon = MANEUVER_ICONS[step.maneuver];
+                    return (
+                      <li key={idx}>
+                        <button
+                          onClick={() => onInstructionSelect(step)}
+                          className="w-full px-4 py-2.5 flex items-start gap-3 text-left hover:bg-blue-50 transition-colors"
+                        >
+                          <Icon className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-slate-700">{step.text}</p>
+                            {step.notes.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {step.notes.map((note) => (
+                                  <span key={note} className="text-[11px] bg-amber-50 text-amber-700 border border-amber-200 rounded-full px-2 py-0.5">
+                                    {note}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          {step.distance > 0 && (
+                            <span className="text-xs text-slate-500 flex-shrink-0">{formatStepDistance(step.distance)}</span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
+          )}
+
           {/* Elevation Profile */}
           <div className="border border-slate-200 rounded-xl overflow-hidden">
             <button 
@@ -1659,32 +4534,16 @@ function RoutePanelComponent({
               {showElevation ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
             </button>
             
-            {showElevation && route.elevationProfile && route.elevationProfile.length > 0 && (
+            {showElevation && !(route.elevationProfile && route.elevationProfile.length > 1) && (
+              <p className="p-4 bg-white text-xs text-slate-500">No elevation data for this area.</p>
+            )}
+            {showElevation && route.elevationProfile && route.elevationProfile.length > 1 && (
               <div className="p-4 bg-white">
-                <div className="h-20 flex items-end gap-0.5">
-                  {route.elevationProfile.map((p, i) => {
-                    const min = Math.min(...route.elevationProfile!.map(x => x.elevation));
-                    const max = Math.max(...route.elevationProfile!.map(x => x.elevation));
-                    const range = max - min || 1;
-                    const height = ((p.elevation - min) / range) * 100;
-                    const slope = i > 0 ? Math.abs(p.elevation - route.elevationProfile![i - 1].elevation) / 
-                      ((p.distance - route.elevationProfile![i - 1].distance) || 1) * 100 : 0;
-                    const color = slope > 8 ? 'bg-red-500' : slope > 4 ? 'bg-orange-500' : 'bg-green-500';
-                    
-                    return (
-                      <div 
-                        key={i} 
-                        className={`flex-1 ${color} rounded-t-sm transition-all min-h-[2px]`} 
-                        style={{ height: `${Math.max(height, 5)}%` }}
-                        title={`${p.elevation.toFixed(0)}m`}
-                      />
-                    );
-                  })}
-                </div>
-                <div className="flex justify-between mt-2 text-xs text-slate-500">
-                  <span>0 km</span>
-                  <span>{(route.totalDistance / 1000).toFixed(1)} km</span>
-                </div>
+                <ElevationChartComponent
+                  profile={route.elevationProfile}
+                  maxInclinePercent={getMobilityProfile(route.profile).maxInclinePercent}
+                  onHover={(distance) => onElevationHover(distance === null ? null : pointAlong(routeCoordinates(route), distance))}
+                />
               </div>
             )}
           </div>
@@ -1713,7 +4572,21 @@ function RoutePanelComponent({
                       </p>
                       {seg.surface && <p className="text-xs text-slate-500">Surface: {seg.surface}</p>}
                       {seg.incline && <p className="text-xs text-slate-500">Incline: {seg.incline.toFixed(1)}%</p>}
-                      {seg.description && <p className="text-xs text-slate-600 mt-1">{seg.description}</p>}
+                      {seg.accessibilityScore !== undefined && (
+                        <p className="text-xs text-slate-500">Score: {seg.accessibilityScore}/10</p>
+                      )}
+                      {seg.reasons && seg.reasons.length > 0 ? (
+                        <ul className="mt-1 space-y-0.5">
+                          {seg.reasons.map((reason, i) => (
+                            <li key={`${reason.code}-${i}`} className={`text-xs ${
+                              reason.severity === 'hazard' ? 'text-red-600' :
+                              reason.severity === 'caution' ? 'text-orange-600' : 'text-slate-600'
+                            }`}>
+                              {reason.message}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : seg.description && <p className="text-xs text-slate-600 mt-1">{seg.description}</p>}
                     </div>
                   </div>
                 ))}
@@ -1723,7 +4596,14 @@ function RoutePanelComponent({
         </div>
 
         {/* Action Buttons */}
-        <div className="flex gap-3 pt-4">
+        <button 
+          onClick={onStartNavigation}
+          className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white rounded-xl py-3 text-sm font-medium transition-colors mt-4"
+        >
+          <Navigation2 className="w-4 h-4" />
+          Start Navigation
+        </button>
+        <div className="flex gap-3">
           <button 
             onClick={handleExportGPX}
             className="flex-1 flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl py-3 text-sm font-medium transition-colors"
@@ -1731,6 +4611,13 @@ function RoutePanelComponent({
             <Download className="w-4 h-4" />
             Export
           </button>
+          <button 
+            onClick={onReadAloud}
+            className="flex-1 flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl py-3 text-sm font-medium transition-colors"
+          >
+            <Volume2 className="w-4 h-4" />
+            Listen
+          </button>
           <button 
             onClick={handleShare}
             className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl py-3 text-sm font-medium transition-colors"
@@ -1750,6 +4637,97 @@ function RoutePanelComponent({
   );
 }
 
+// ═══════════════════════════════════════════════════════════
+// NAVIGATION COMPONENT
+// ═══════════════════════════════════════════════════════════
+
+function NavigationPanelComponent({
+  progress,
+  isRerouting,
+  voiceEnabled,
+  onToggleVoice,
+  onStop,
+}: {
+  progress: NavigationProgress | null;
+  isRerouting: boolean;
+  voiceEnabled: boolean;
+  onToggleVoice: () => void;
+  onStop: () => void;
+}) {
+  const next = progress?.nextInstruction;
+  const Icon = next ? MANEUVER_ICONS[next.maneuver] : Navigation2;
+  const remainingMin = progress ? Math.ceil(progress.remainingTime / 60) : 0;
+
+  return (
+    <div className="absolute right-4 top-20 w-96 bg-white rounded-2xl shadow-2xl border border-slate-200 z-[1000] overflow-hidden">
+      {progress?.arrived ? (
+        <div className="px-6 py-5 flex items-center gap-4 bg-green-600 text-white">
+          <Flag className="w-8 h-8" />
+          <div>
+            <p className="text-lg font-bold">You have arrived</p>
+            <p className="text-sm text-green-100">Navigation ended</p>
+          </div>
+        </div>
+      ) : (
+        <div className="px-6 py-5 flex items-center gap-4 bg-blue-600 text-white">
+          <Icon className="w-10 h-10 flex-shrink-0" />
+          <div className="min-w-0">
+            {progress ? (
+              <>
+                <p className="text-2xl font-bold">{formatStepDistance(progress.distanceToNext)}</p>
+                <p className="text-sm text-blue-100 truncate">{next ? next.text : 'Follow the route'}</p>
+              </>
+            ) : (
+              <p className="text-sm text-blue-100">Waiting for your position...</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {next && next.notes.length > 0 && !progress?.arrived && (
+        <div className="px-6 py-2 flex flex-wrap gap-1 bg-amber-50 border-b border-amber-100">
+          {next.notes.map((note) => (
+            <span key={note} className="text-[11px] text-amber-700">{note}</span>
+          ))}
+        </div>
+      )}
+
+      {(isRerouting || progress?.offRoute) && !progress?.arrived && (
+        <div className="px-6 py-2 flex items-center gap-2 bg-amber-50 border-b border-amber-200">
+          <AlertTriangle className="w-4 h-4 text-amber-600" />
+          <span className="text-xs text-amber-800">
+            {isRerouting
+              ? 'Recalculating from your position...'
+              : `Off route – ${Math.round(progress!.distanceFromRoute)} m from the route`}
+          </span>
+        </div>
+      )}
+
+      <div className="px-6 py-4 flex items-center justify-between">
+        {progress && !progress.arrived ? (
+          <div className="flex items-center gap-4 text-sm text-slate-700">
+            <span className="flex items-center gap-1"><Ruler className="w-4 h-4 text-slate-400" />{formatStepDistance(progress.remainingDistance)}</span>
+            <span className="flex items-center gap-1"><Clock className="w-4 h-4 text-slate-400" />{remainingMin} min</span>
+          </div>
+        ) : <span />}
+        <button
+          onClick={onToggleVoice}
+          className="p-2 ml-auto mr-2 hover:bg-slate-100 rounded-xl transition-colors"
+          aria-label={voiceEnabled ? 'Mute voice guidance' : 'Turn on voice guidance'}
+        >
+          {voiceEnabled ? <Volume2 className="w-5 h-5 text-blue-600" /> : <VolumeX className="w-5 h-5 text-slate-400" />}
+        </button>
+        <button
+          onClick={onStop}
+          className="bg-red-50 hover:bg-red-100 text-red-600 rounded-xl px-4 py-2 text-sm font-medium transition-colors border border-red-200"
+        >
+          {progress?.arrived ? 'Done' : 'End'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════
 // PERMISSION MODAL COMPONENT
 // ═══════════════════════════════════════════════════════════
@@ -1825,41 +4803,60 @@ function LocationPermissionModal({
 // MAIN PAGE COMPONENT
 // ═══════════════════════════════════════════════════════════
 
-const Index = () => {
+const Index = ({ profileId }: { profileId?: string }) => {
+  const profile = getMobilityProfile(profileId);
   const [startPoint, setStartPoint] = useState<{ lat: number; lng: number } | null>(null);
   const [endPoint, setEndPoint] = useState<{ lat: number; lng: number } | null>(null);
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [startLabel, setStartLabel] = useState('');
   const [endLabel, setEndLabel] = useState('');
   const [route, setRoute] = useState<RouteResult | null>(null);
+  const [routeOptions, setRouteOptions] = useState<RouteResult[]>([]);
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
   const [hazards, setHazards] = useState<HazardPoint[]>([]);
+  const [hazardSource, setHazardSource] = useState<HazardSource | null>('database');
   const [reports, setReports] = useState<IssueReport[]>([]);
   const [savedLocations, setSavedLocations] = useState<SavedLocation[]>([]);
   const [recentSearches, setRecentSearches] = useState<SearchResult[]>([]);
-  const [flyTo, setFlyTo] = useState<{ lat: number; lng: number } | null>(null);
+  const [flyTo, setFlyTo] = useState<{ lat: number; lng: number; zoom?: number } | null>(null);
   const [mapStyle, setMapStyle] = useState('dark');
   const [isRouting, setIsRouting] = useState(false);
   const [reportMode, setReportMode] = useState<{ lat: number; lng: number } | null>(null);
   const [showPermissionModal, setShowPermissionModal] = useState(true);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
+  const [routeError, setRouteError] = useState<string | null>(null);
   const [clickMode] = useState<'start' | 'end'>('end'); // Always set destination on click
+  const [preferences, setPreferences] = useState<RoutePreferences>(DEFAULT_PREFERENCES);
+  const [viewport, setViewport] = useState<MapBounds | null>(null);
+  const [rerouteToken, setRerouteToken] = useState(0);
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [selectedPlaceId, setSelectedPlaceId] = useState<string | null>(null);
+  const [showNearby, setShowNearby] = useState(false);
+  const [showReach, setShowReach] = useState(false);
+  const [isochrones, setIsochrones] = useState<Isochrone[]>([]);
+  const [isNavigating, setIsNavigating] = useState(false);
+  const [locationAccuracy, setLocationAccuracy] = useState(0);
+  const [navProgress, setNavProgress] = useState<NavigationProgress | null>(null);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [chairSettings, setChairSettings] = useState<ChairSettings>(DEFAULT_CHAIR);
+  const [elevationHover, setElevationHover] = useState<{ lat: number; lng: number } | null>(null);
+  const knownReportIds = useRef<Set<string>>(new Set());
+  // Last progress and the route it was measured on, to continue from on the next fix
+  const navigationRef = useRef<{ route: RouteResult; progress: NavigationProgress } | null>(null);
+  const voiceRef = useRef<VoiceState | null>(null);
+  // Each route calculation takes the next number; only the latest may set the route
+  const routeRequestRef = useRef(0);
+  // Set from an off-route reroute until the calculation it starts finishes
+  const routeInFlightRef = useRef(false);
 
   // Load saved data
   useEffect(() => { 
     const loadInitialData = async () => {
-      try {
-        const hazardsData = await fetchHazards();
-        setHazards(hazardsData);
-      } catch (error) {
-        console.error('Failed to fetch hazards:', error);
-        // Fallback to mock data
-        const mockHazards = getMockHazards(KATHMANDU_CENTER.lat, KATHMANDU_CENTER.lng);
-        setHazards(mockHazards);
-      }
-      
-      setReports(getReports());
       setSavedLocations(getSavedLocations());
+      setPreferences(getRoutePreferences());
+      setVoiceSettings(getVoiceSettings());
+      setChairSettings(getChairSettings());
       
       // Load recent searches from session storage
       const recent = sessionStorage.getItem('recent-searches');
@@ -1875,12 +4872,139 @@ const Index = () => {
     loadInitialData();
   }, []);
 
+  // Load reports for the visible area, sending any queued ones first
+  const loadReports = useCallback(async (bounds: MapBounds) => {
+    await flushReportOutbox();
+    const remote = await fetchReports(bounds);
+    setReports([...getPendingReports(), ...remote]);
+  }, []);
+  
+  // Reload on pan/zoom and every REPORT_REFRESH_MS so that other users'
+  // new reports show up (and can trigger a reroute)
+  useEffect(() => {
+    if (!viewport) return;
+    loadReports(viewport);
+    const timer = setInterval(() => loadReports(viewport), REPORT_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [viewport, loadReports]);
+  
+  useEffect(() => {
+    if (viewport) fetchPlaces(viewport).then(setPlaces);
+  }, [viewport]);
+  
+  // Hazards for the visible area; ignores answers for a viewport already left
+  useEffect(() => {
+    if (!viewport) return;
+    if (viewport.east - viewport.west > MAX_HAZARD_SPAN_DEG || viewport.north - viewport.south > MAX_HAZARD_SPAN_DEG) return;
+    let cancelled = false;
+    fetchHazards(viewport).then(({ hazards: loaded, source }) => {
+      if (cancelled) return;
+      setHazards(loaded);
+      setHazardSource(source);
+    });
+    return () => { cancelled = true; };
+  }, [viewport]);
+  
+  const handlePlaceSelect = useCallback((place: Place) => setSelectedPlaceId(place.id), []);
+  
+  const handleNavigateToPlace = (place: Place) => {
+    setEndPoint({ lat: place.lat, lng: place.lng });
+    setEndLabel(place.name);
+    setSelectedPlaceId(null);
+    setShowNearby(false);
+    if (!startPoint) {
+      setStartPoint(currentLocation ?? KATHMANDU_CENTER);
+      setStartLabel(currentLocation ? 'Your Location' : 'Kathmandu Center');
+    }
+  };
+  
+  // Recalculate when a report we have not seen before lands on the route
+  useEffect(() => {
+    const fresh = reports.filter(r => !knownReportIds.current.has(r.id));
+    fresh.forEach(r => knownReportIds.current.add(r.id));
+    if (!route || fresh.length === 0) return;
+    
+    if (obstaclesNear(collectObstacles([], fresh), routeCoordinates(route)).length > 0) {
+      setRerouteToken(t => t + 1);
+    }
+  }, [reports, route]);
+  
+  const handleReportAction = useCallback(async (report: IssueReport, action: ReportAction) => {
+    try {
+      const updated = await sendReportAction(report.id, action);
+      // Resolved or already gone reports drop off the map; a report marked
+      // fixed by too few people yet stays
+      setReports(prev => updated && updated.status !== 'resolved'
+        ? prev.map(r => r.id === report.id ? updated : r)
+        : prev.filter(r => r.id !== report.id));
+    } catch (error) {
+      console.error('Failed to update report:', error);
+    }
+  }, []);
+  
+  // Retry the outbox as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => { if (viewport) loadReports(viewport); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [viewport, loadReports]);
+
   // Calculate route when both points are set
   useEffect(() => { 
     if (startPoint && endPoint) {
       calculateRoute();
     }
-  }, [startPoint, endPoint]);
+  }, [startPoint, endPoint, waypoints, preferences, chairSettings, profileId, rerouteToken]);
+
+  // Follow the device position while navigating
+  useEffect(() => {
+    if (!isNavigating) return;
+    return watchPosition(
+      (position, accuracy) => {
+        setCurrentLocation(position);
+        setLocationAccuracy(accuracy);
+      },
+      (error) => {
+        console.error('Location error:', error);
+        setLocationError('Lost your location. Navigation needs location access.');
+      }
+    );
+  }, [isNavigating]);
+  
+  // Track progress on every fix; after a few fixes off the route, route
+  // again from here with the same destination and preferences
+  useEffect(() => {
+    if (!isNavigating || !route || !currentLocation) return;
+    
+    const previous = navigationRef.current?.route === route ? navigationRef.current.progress : null;
+    const progress = trackProgress(
+      { ...route, coordinates: routeCoordinates(route) },
+      currentLocation,
+      { accuracy: locationAccuracy, previous }
+    );
+    navigationRef.current = { route, progress };
+    setNavProgress(progress);
+    
+    if (voiceSettings.enabled) {
+      if (voiceRef.current?.route !== route) {
+        voiceRef.current = { route, segmentStarts: segmentStartDistances(route), spoken: new Set() };
+      }
+      navigationAnnouncements(progress, voiceRef.current, voiceSettings)
+        .forEach(text => speak(text, voiceSettings.language));
+    }
+    
+    if (progress.arrived) {
+      setIsNavigating(false);
+    } else if (progress.shouldReroute && !routeInFlightRef.current) {
+      // Further fixes do not reroute again until this calculation is done
+      routeInFlightRef.current = true;
+      // Stops already reached are not visited again
+      const passed = route.legs?.filter(l => l.startDistance + l.distance <= progress.distanceAlong).length ?? 0;
+      if (passed > 0) setWaypoints(current => current.slice(passed));
+      setStartPoint(currentLocation);
+      setStartLabel('Current location');
+    }
+  }, [isNavigating, route, currentLocation, locationAccuracy, voiceSettings]);
 
   // Handle current location
   const handleAllowLocation = async () => {
@@ -1916,18 +5040,123 @@ const Index = () => {
   const calculateRoute = async () => {
     if (!startPoint || !endPoint) return;
     
+    const request = ++routeRequestRef.current;
+    routeInFlightRef.current = true;
     setIsRouting(true);
     
+    const obstacles = collectObstacles(hazards, reports);
+    
+    if (waypoints.length > 0) {
+      const trip = await calculateTrip(obstacles);
+      // A newer calculation has started since; its result wins
+      if (request !== routeRequestRef.current) return;
+      setRouteError(trip.error);
+      setRouteOptions(trip.route ? [trip.route] : []);
+      setRoute(trip.route);
+      routeInFlightRef.current = false;
+      setIsRouting(false);
+      return;
+    }
+    
     const start = L.latLng(startPoint.lat, startPoint.lng);
     const end = L.latLng(endPoint.lat, endPoint.lng);
     
-    let result = await getORSRoute(start, end);
-    if (!result) result = await getOSRMRoute(start, end);
+    const result = await routeWithProviders({ start, end, preferences, profile, hazards, obstacles, chair: chairSettings });
+    // Alternatives come from the same provider and are rated the same way
+    const options = result
+      ? await Promise.all(
+          [result, ...(result.alternatives ?? [])].map(async (option) => ({
+            ...(await classifyRoute({ ...option, alternatives: undefined }, profile, hazards, reports)),
+            profile: profile.id,
+            provider: result.provider,
+            simulated: result.simulated,
+          }))
+        )
+      : [];
     
-    setRoute(result);
+    if (request !== routeRequestRef.current) return;
+    const ordered = preferWithinEffort(options, chairSettings);
+    setRouteError(result ? null : 'No route found – every routing provider failed or had no path.');
+    setRouteOptions(ordered);
+    setRoute(ordered[0] ?? null);
+    routeInFlightRef.current = false;
     setIsRouting(false);
   };
 
+  // Routes every leg of a trip with waypoints in turn; alternatives are not
+  // offered for whole trips
+  const calculateTrip = async (obstacles: Obstacle[]): Promise<{ route: RouteResult | null; error: string | null }> => {
+    const stops = [startPoint!, ...waypoints, endPoint!];
+    const labels = [startLabel || 'Start', ...waypoints.map(w => w.label), endLabel || 'Destination'];
+    const legs: RouteResult[] = [];
+    
+    for (let i = 0; i < stops.length - 1; i++) {
+      const leg = await routeWithProviders({
+        start: L.latLng(stops[i].lat, stops[i].lng),
+        end: L.latLng(stops[i + 1].lat, stops[i + 1].lng),
+        preferences, profile, hazards, obstacles, chair: chairSettings,
+      });
+      if (!leg) return { route: null, error: `No route found from ${labels[i]} to ${labels[i + 1]}.` };
+      legs.push({
+        ...(await classifyRoute({ ...leg, alternatives: undefined }, profile, hazards, reports)),
+        provider: leg.provider,
+        simulated: leg.simulated,
+      });
+    }
+    
+    return { route: { ...joinLegs(legs, labels), profile: profile.id }, error: null };
+  };
+
+  const addWaypoint = useCallback((lat: number, lng: number, label: string, index?: number) => {
+    const waypoint = { id: Math.random().toString(36).substr(2, 9), lat, lng, label };
+    setWaypoints(current => {
+      const at = index ?? current.length;
+      return [...current.slice(0, at), waypoint, ...current.slice(at)];
+    });
+  }, []);
+
+  const handleMapLongPress = useCallback((lat: number, lng: number) => {
+    addWaypoint(lat, lng, `${lat.toFixed(4)}, ${lng.toFixed(4)}`);
+  }, [addWaypoint]);
+
+  const handleAddStop = useCallback((result: SearchResult) => {
+    addWaypoint(result.lat, result.lng, result.name);
+    if (window.innerWidth < 768) setSidebarOpen(false);
+  }, [addWaypoint]);
+
+  const handleReorderStops = (from: number, to: number) => {
+    setWaypoints(current => {
+      const next = [...current];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleRemoveStop = (id: string) => {
+    setWaypoints(current => current.filter(w => w.id !== id));
+  };
+
+  // Places join the trip where they lie along the current route
+  const handleAddPlaceStop = (place: PlaceAlongRoute) => {
+    const id = `place:${place.id}`;
+    if (!route || waypoints.some(w => w.id === id)) return;
+    const waypoint = { id, lat: place.lat, lng: place.lng, label: place.name };
+    const at = waypointIndexAt(route, place.along);
+    setWaypoints(current => [...current.slice(0, at), waypoint, ...current.slice(at)]);
+  };
+
+  const handleInsertToiletStop = async () => {
+    if (!route) return;
+    const found = (await fetchPlacesAlongRoute(route, ['toilet'], TOILET_STOP_MAX_M))
+      .find(p => !waypoints.some(w => w.id === `place:${p.id}`));
+    if (!found) {
+      alert(`No place with an accessible toilet within ${TOILET_STOP_MAX_M} m of this route.`);
+      return;
+    }
+    handleAddPlaceStop(found);
+  };
+
   // Handle map click
   const handleMapClick = useCallback((lat: number, lng: number) => {
     if (reportMode) return;
@@ -2016,17 +5245,62 @@ const Index = () => {
 
   // Handle close route
   const handleCloseRoute = () => { 
+    setElevationHover(null);
     setRoute(null); 
+    setRouteOptions([]);
+    setWaypoints([]);
     setEndPoint(null); 
     setEndLabel(''); 
   };
 
+  const handleStartNavigation = () => {
+    navigationRef.current = null;
+    voiceRef.current = null;
+    setNavProgress(null);
+    setIsNavigating(true);
+  };
+  
+  const handleStopNavigation = () => {
+    stopSpeaking();
+    navigationRef.current = null;
+    voiceRef.current = null;
+    setNavProgress(null);
+    setIsNavigating(false);
+  };
+
+  const handleInstructionSelect = (instruction: RouteInstruction) => {
+    setFlyTo({ lat: instruction.location[0], lng: instruction.location[1], zoom: 19 });
+  };
+
   // Handle clear recent searches
   const handleClearRecent = () => {
     setRecentSearches([]);
     sessionStorage.removeItem('recent-searches');
   };
 
+  // Handle route preference changes
+  const handlePreferencesChange = (updated: RoutePreferences) => {
+    setPreferences(updated);
+    saveRoutePreferences(updated);
+  };
+
+  const handleChairSettingsChange = (updated: ChairSettings) => {
+    setChairSettings(updated);
+    saveChairSettings(updated);
+  };
+
+  const handleVoiceSettingsChange = (updated: VoiceSettings) => {
+    if (!updated.enabled) stopSpeaking();
+    setVoiceSettings(updated);
+    saveVoiceSettings(updated);
+  };
+
+  const handleReadAloud = () => {
+    if (!route) return;
+    stopSpeaking();
+    speak(describeRouteAloud(route, voiceSettings), voiceSettings.language);
+  };
+
   // Handle delete saved location
   const handleDeleteSaved = (id: string) => {
     deleteLocation(id);
@@ -2050,9 +5324,20 @@ const Index = () => {
         reports={reports} 
         startPoint={startPoint} 
         endPoint={endPoint}
-        currentLocation={currentLocation}
+        currentLocation={navProgress && !navProgress.offRoute ? navProgress.snapped : currentLocation}
+        followLocation={isNavigating}
+        highlightPoint={elevationHover}
+        routeOptions={isNavigating ? [] : routeOptions}
+        onRouteSelect={setRoute}
+        waypoints={waypoints}
+        onMapLongPress={handleMapLongPress}
+        isochrones={isochrones}
         flyTo={flyTo} 
         mapStyle={mapStyle} 
+        onBoundsChange={setViewport}
+        onReportAction={handleReportAction}
+        places={places}
+        onPlaceSelect={handlePlaceSelect}
       />
 
       {/* Top Bar */}
@@ -2073,6 +5358,42 @@ const Index = () => {
           </div>
         )}
 
+        {/* Mobility Profile */}
+        <div className="pointer-events-auto bg-white/90 backdrop-blur-md rounded-xl shadow-lg px-4 py-2 flex items-center gap-2 border border-slate-200">
+          <Accessibility className="w-4 h-4 text-blue-600" />
+          <span className="text-xs text-slate-600">{profile.label}</span>
+        </div>
+
+        {/* Nearby services */}
+        <button
+          onClick={() => { setShowNearby(true); setShowReach(false); setSidebarOpen(false); }}
+          className="pointer-events-auto bg-white/90 backdrop-blur-md rounded-xl shadow-lg px-4 py-2 flex items-center gap-2 border border-slate-200 hover:bg-white transition-colors"
+        >
+          <MapPin className="w-4 h-4 text-blue-600" />
+          <span className="text-xs text-slate-600">Nearby services</span>
+        </button>
+
+        {/* Reachable area */}
+        <button
+          onClick={() => { setShowReach(true); setShowNearby(false); setSidebarOpen(false); }}
+          className="pointer-events-auto bg-white/90 backdrop-blur-md rounded-xl shadow-lg px-4 py-2 flex items-center gap-2 border border-slate-200 hover:bg-white transition-colors"
+        >
+          <Compass className="w-4 h-4 text-blue-600" />
+          <span className="text-xs text-slate-600">Reachable area</span>
+        </button>
+
+        {/* Hazard data source */}
+        {hazardSource !== 'database' && (
+          <div className="pointer-events-auto bg-amber-50/95 backdrop-blur-md rounded-xl shadow-lg px-4 py-2 flex items-center gap-2 border border-amber-200">
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+            <span className="text-xs text-amber-800">
+              {hazardSource === 'overpass'
+                ? 'Hazards from live OpenStreetMap (fallback) – may be incomplete'
+                : 'Hazard data unavailable'}
+            </span>
+          </div>
+        )}
+
         {/* Click Mode Indicator */}
         <div className="pointer-events-auto bg-white/90 backdrop-blur-md rounded-xl shadow-lg px-5 py-3 border border-slate-200 ml-auto">
           <span className="text-sm text-slate-600 flex items-center gap-2">
@@ -2087,26 +5408,56 @@ const Index = () => {
         isOpen={sidebarOpen}
         onClose={() => setSidebarOpen(false)}
         onSearchSelect={handleSelectPlace}
+        onAddStop={endPoint ? handleAddStop : undefined}
         onUseCurrentLocation={handleUseCurrentLocation}
         savedLocations={savedLocations}
         recentSearches={recentSearches}
         onClearRecent={handleClearRecent}
         onDeleteSaved={handleDeleteSaved}
         onSelectSaved={handleSelectSaved}
+        preferences={preferences}
+        onPreferencesChange={handlePreferencesChange}
+        voiceSettings={voiceSettings}
+        onVoiceSettingsChange={handleVoiceSettingsChange}
+        chairSettings={chairSettings}
+        onChairSettingsChange={handleChairSettingsChange}
       />
 
       {/* Route Panel */}
-      {route && (
+      {route && !isNavigating && !navProgress && (
         <RoutePanelComponent 
           route={route} 
           startLabel={startLabel} 
           endLabel={endLabel} 
           onClose={handleCloseRoute} 
+          onInstructionSelect={handleInstructionSelect}
+          onStartNavigation={handleStartNavigation}
+          onReadAloud={handleReadAloud}
+          onElevationHover={setElevationHover}
+          options={routeOptions}
+          onSelectOption={setRoute}
+          waypoints={waypoints}
+          onReorderStops={handleReorderStops}
+          onRemoveStop={handleRemoveStop}
+          onInsertToiletStop={handleInsertToiletStop}
+          onAddPlaceStop={handleAddPlaceStop}
+          chair={chairSettings}
           startCoords={startPoint || undefined} 
           endCoords={endPoint || undefined} 
         />
       )}
 
+      {/* Navigation Panel */}
+      {(isNavigating || navProgress) && (
+        <NavigationPanelComponent
+          progress={navProgress}
+          isRerouting={isRouting}
+          voiceEnabled={voiceSettings.enabled}
+          onToggleVoice={() => handleVoiceSettingsChange({ ...voiceSettings, enabled: !voiceSettings.enabled })}
+          onStop={handleStopNavigation}
+        />
+      )}
+
       {/* Map Style Switcher */}
       <MapStyleSwitcherComponent current={mapStyle} onChange={setMapStyle} />
 
@@ -2125,13 +5476,46 @@ const Index = () => {
         <span className="text-sm text-slate-700">Report Issue</span>
       </button>
 
+      {/* Nearby Services Panel */}
+      {showNearby && !selectedPlaceId && (
+        <NearbyServicesPanelComponent
+          origin={currentLocation ?? startPoint ?? KATHMANDU_CENTER}
+          profileId={profile.id}
+          onClose={() => setShowNearby(false)}
+          onSelect={handlePlaceSelect}
+          onNavigate={handleNavigateToPlace}
+        />
+      )}
+
+      {/* Reachability Panel */}
+      {showReach && !selectedPlaceId && (
+        <ReachabilityPanelComponent
+          origin={currentLocation ?? startPoint ?? KATHMANDU_CENTER}
+          profile={profile}
+          preferences={preferences}
+          chairType={chairSettings.type}
+          isochrones={isochrones}
+          onChange={setIsochrones}
+          onClose={() => { setShowReach(false); setIsochrones([]); }}
+        />
+      )}
+
+      {/* Place Detail Panel */}
+      {selectedPlaceId && (
+        <PlaceDetailPanelComponent
+          placeId={selectedPlaceId}
+          onClose={() => setSelectedPlaceId(null)}
+          onNavigate={handleNavigateToPlace}
+        />
+      )}
+
       {/* Report Issue Modal */}
       {reportMode && (
         <ReportIssueComponent 
           lat={reportMode.lat} 
           lng={reportMode.lng} 
           onClose={() => setReportMode(null)} 
-          onSaved={() => setReports(getReports())} 
+          onSaved={(report) => setReports(prev => [report, ...prev])} 
         />
       )}
 
@@ -2151,6 +5535,28 @@ const Index = () => {
         </div>
       )}
 
+      {/* Simulated route notice */}
+      {route?.simulated && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1100] bg-red-600 text-white rounded-xl shadow-2xl px-6 py-3 flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5" />
+          <span className="text-sm font-semibold">Simulated route – not real directions. Do not use it to travel.</span>
+        </div>
+      )}
+
+      {/* Route Error */}
+      {routeError && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[1100] bg-red-50 rounded-xl shadow-lg px-6 py-3 flex items-center gap-3 border border-red-200">
+          <AlertCircle className="w-5 h-5 text-red-500" />
+          <span className="text-sm text-red-700">{routeError}</span>
+          <button 
+            onClick={() => setRouteError(null)}
+            className="p-1 hover:bg-red-100 rounded-lg"
+          >
+            <X className="w-4 h-4 text-red-500" />
+          </button>
+        </div>
+      )}
+
       {/* Location Error */}
       {locationError && (
         <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[1100] bg-red-50 rounded-xl shadow-lg px-6 py-3 flex items-center gap-3 border border-red-200">
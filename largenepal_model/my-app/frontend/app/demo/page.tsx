@@ -21,6 +21,7 @@ import { FaPersonWalkingWithCane } from "react-icons/fa6";
 import { MdChildFriendly } from "react-icons/md";
 
 import css from 'styled-jsx/css';
+import { MOBILITY_PROFILES } from "../../../shared/mobilityProfiles.js";
 //  main function for demo, day 1
 export default function DemoPage() {
   const router = useRouter();
@@ -58,9 +59,9 @@ export default function DemoPage() {
       bgColor: "bg-blue-50",
       iconBg: "bg-blue-100",
       iconColor: "text-blue-600",
-      status: "phase2",
-      buttonText: "Coming in Phase 2",
-      phase: "Coming Soon"
+      status: "available",
+      buttonText: "Start Navigation",
+      phase: "Now Available"
     },
     {
       id: "stroller",
@@ -71,9 +72,9 @@ export default function DemoPage() {
       bgColor: "bg-green-50",
       iconBg: "bg-green-100",
       iconColor: "text-green-600",
-      status: "phase2",
-      buttonText: "Coming in Phase 2",
-      phase: "Coming Soon"
+      status: "available",
+      buttonText: "Start Navigation",
+      phase: "Now Available"
     },
     {
       id: "mobility",
@@ -84,16 +85,15 @@ export default function DemoPage() {
       bgColor: "bg-purple-50",
       iconBg: "bg-purple-100",
       iconColor: "text-purple-600",
-      status: "phase2",
-      buttonText: "Coming in Phase 2",
-      phase: "Coming Soon"
+      status: "available",
+      buttonText: "Start Navigation",
+      phase: "Now Available"
     }
   ];
 
+  // Each mode maps to a mobility profile that drives routing on the map
   const handleStartNavigation = (modeId: string) => {
-    if (modeId === "wheelchair") {
-      router.push('../maps');
-    }
+    router.push(`/maps?profile=${encodeURIComponent(modeId)}`);
   };
 
   return (
@@ -229,6 +229,19 @@ export default function DemoPage() {
                       </div>
                     </>
                   )}
+                  {mode.id !== 'wheelchair' && mode.id in MOBILITY_PROFILES && (() => {
+                    const profile = MOBILITY_PROFILES[mode.id as keyof typeof MOBILITY_PROFILES];
+                    return [
+                      `Slopes up to ${profile.maxInclinePercent}%`,
+                      `Passages from ${profile.minWidthCm} cm wide`,
+                      profile.allowsSteps ? 'Steps allowed when needed' : 'Step-free routes',
+                    ].map((feature) => (
+                      <div key={feature} className="flex items-center text-sm text-gray-500 group-hover:translate-x-2 transition-transform duration-300">
+                        <FaStar className="w-4 h-4 text-orange-500 mr-2" />
+                        <span>{feature}</span>
+                      </div>
+                    ));
+                  })()}
                 </div>
 
                 {/* Button */}
@@ -1,10 +1,16 @@
 // my-app/frontend/app/maps/page.tsx
 import MapClient from "../components/MapClient";
 
-export default function Home() {
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ profile?: string }>;
+}) {
+  const { profile } = await searchParams;
+
   return (
     <main style={{ width: "100vw", height: "100vh" }}>
-      <MapClient />
+      <MapClient profile={profile} />
     </main>
   );
 }
\ No newline at end of file
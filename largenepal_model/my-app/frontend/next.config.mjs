@@ -1,11 +1,25 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// my-app/, so that modules in ../shared can be imported and traced
+const appRoot = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  turbopack: {
+    root: appRoot,
+  },
+  outputFileTracingRoot: appRoot,
   async rewrites() {
     return [
       {
         source: "/api/:path*",
         destination: "http://localhost:5000/api/:path*",
       },
+      {
+        source: "/uploads/:path*",
+        destination: "http://localhost:5000/uploads/:path*",
+      },
     ];
   },
 };
@@ -0,0 +1,176 @@
+// my-app/shared/accessibilityScore.js
+// The single accessibility score for places and path segments. Scores run
+// 0–10 and are built from named components, so the UI and the API can show
+// why something scored the way it did. Used by the backend and the frontend.
+
+import { parseIncline } from './osmTags.js';
+
+/**
+ * @typedef {'entrance' | 'surface' | 'incline' | 'kerb' | 'toilet' | 'reviews'} ScoreComponent
+ */
+
+/**
+ * Per-component scores (0–10). `null` means nothing is known for that
+ * component and it does not count towards the total.
+ * @typedef {Record<ScoreComponent, number | null>} ScoreBreakdown
+ */
+
+/**
+ * @typedef {Object} AccessibilityScore
+ * @property {number} score              weighted mean of the known components, 0–10
+ * @property {boolean} rated             false when no component was known and `score` is neutral
+ * @property {ScoreBreakdown} components
+ */
+
+/**
+ * Everything the scorer understands. Places and path segments fill in
+ * whichever fields they have; OSM tag values are accepted as-is.
+ * @typedef {Object} ScoreInput
+ * @property {string | null} [wheelchair]            OSM wheelchair=* (yes/limited/no/designated)
+ * @property {boolean | null} [hasRamp]
+ * @property {boolean | null} [entryAccessible]       what reviewers said about the entrance
+ * @property {boolean | null} [hasAccessibleToilet]
+ * @property {string | null} [toiletsWheelchair]     OSM toilets:wheelchair=*
+ * @property {string | null} [surface]
+ * @property {string | null} [smoothness]
+ * @property {number | string | null} [incline]      percent, sign ignored
+ * @property {string | null} [kerb]                  OSM kerb=* (flush/lowered/rolled/raised)
+ * @property {boolean | null} [hasCurbCuts]
+ * @property {number | null} [reviewRating]          mean review rating, 1–5
+ * @property {number | null} [reviewCount]
+ */
+
+export const SCORE_COMPONENTS = /** @type {ScoreComponent[]} */ (['entrance', 'surface', 'incline', 'kerb', 'toilet', 'reviews']);
+export const MAX_SCORE = 10;
+export const NEUTRAL_SCORE = 5;
+
+const COMPONENT_WEIGHTS = { entrance: 3, surface: 2, incline: 2, kerb: 2, toilet: 1, reviews: 2 };
+
+const WHEELCHAIR_SCORES = { designated: 10, yes: 9, limited: 5, no: 0 };
+
+const SURFACE_SCORES = {
+  asphalt: 10, concrete: 10, 'concrete:plates': 9, paved: 9, paving_stones: 8, metal: 8, wood: 7,
+  compacted: 6, fine_gravel: 5, sett: 4, unpaved: 4, cobblestone: 3, pebblestone: 3, gravel: 3,
+  unhewn_cobblestone: 2, ground: 2, dirt: 2, grass: 1, sand: 0, mud: 0,
+};
+
+const SMOOTHNESS_SCORES = {
+  excellent: 10, good: 9, intermediate: 7, bad: 4, very_bad: 2, horrible: 1, very_horrible: 0, impassable: 0,
+};
+
+const KERB_SCORES = { flush: 10, no: 10, lowered: 9, rolled: 6, yes: 3, raised: 1 };
+
+// Inclines up to FLAT_INCLINE_PERCENT score full marks; the score then falls
+// linearly and reaches zero at MAX_INCLINE_PERCENT.
+const FLAT_INCLINE_PERCENT = 2;
+const MAX_INCLINE_PERCENT = 12;
+
+const clamp = (n) => Math.min(Math.max(n, 0), MAX_SCORE);
+
+const parseNumber = (value) => {
+  if (value == null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const lookup = (table, value) =>
+  value == null ? null : table[String(value).toLowerCase()] ?? null;
+
+const scoreEntrance = ({ wheelchair, hasRamp, entryAccessible }) => {
+  const tagged = lookup(WHEELCHAIR_SCORES, wheelchair);
+  if (tagged !== null) return tagged;
+  if (entryAccessible === true) return 8;
+  if (entryAccessible === false) return 2;
+  if (hasRamp === true) return 8;
+  if (hasRamp === false) return 4;
+  return null;
+};
+
+const scoreSurface = ({ surface, smoothness }) => {
+  const base = lookup(SURFACE_SCORES, surface);
+  const smooth = lookup(SMOOTHNESS_SCORES, smoothness);
+  if (base === null) return smooth;
+  // Smoothness can only pull a surface down: broken asphalt is not asphalt.
+  return smooth === null ? base : Math.min(base, smooth);
+};
+
+const scoreIncline = ({ incline }) => {
+  const value = parseNumber(incline);
+  if (value === undefined) return null;
+  const excess = Math.max(Math.abs(value) - FLAT_INCLINE_PERCENT, 0);
+  return clamp(MAX_SCORE - (excess * MAX_SCORE) / (MAX_INCLINE_PERCENT - FLAT_INCLINE_PERCENT));
+};
+
+const scoreKerb = ({ kerb, hasCurbCuts }) => {
+  const tagged = lookup(KERB_SCORES, kerb);
+  if (tagged !== null) return tagged;
+  if (hasCurbCuts === true) return 9;
+  if (hasCurbCuts === false) return 2;
+  return null;
+};
+
+// A place without a toilet is no harder to reach, so only an explicit
+// `toilets:wheelchair=no` counts against it.
+const scoreToilet = ({ toiletsWheelchair, hasAccessibleToilet }) => {
+  const tagged = lookup(WHEELCHAIR_SCORES, toiletsWheelchair);
+  if (tagged !== null) return tagged;
+  return hasAccessibleToilet === true ? 10 : null;
+};
+
+const scoreReviews = ({ reviewRating, reviewCount }) => {
+  const rating = parseNumber(reviewRating);
+  if (rating === undefined || reviewCount === 0) return null;
+  return clamp(((rating - 1) / 4) * MAX_SCORE);
+};
+
+const SCORERS = {
+  entrance: scoreEntrance,
+  surface: scoreSurface,
+  incline: scoreIncline,
+  kerb: scoreKerb,
+  toilet: scoreToilet,
+  reviews: scoreReviews,
+};
+
+const round1 = (n) => Math.round(n * 10) / 10;
+
+/**
+ * Scores a place or a path segment on the shared 0–10 scale.
+ * @param {ScoreInput} input
+ * @returns {AccessibilityScore}
+ */
+export const scoreAccessibility = (input) => {
+  const components = /** @type {ScoreBreakdown} */ ({});
+  let total = 0;
+  let weight = 0;
+
+  for (const name of SCORE_COMPONENTS) {
+    const value = SCORERS[name](input);
+    components[name] = value === null ? null : round1(value);
+    if (value !== null) {
+      total += value * COMPONENT_WEIGHTS[name];
+      weight += COMPONENT_WEIGHTS[name];
+    }
+  }
+
+  return {
+    score: weight > 0 ? round1(total / weight) : NEUTRAL_SCORE,
+    rated: weight > 0,
+    components,
+  };
+};
+
+/**
+ * Reads the scorer's inputs from raw OSM tags.
+ * @param {Record<string, string | undefined>} tags
+ * @returns {ScoreInput}
+ */
+export const scoreInputFromTags = (tags) => ({
+  wheelchair: tags.wheelchair,
+  hasRamp: tags['ramp:wheelchair'] === undefined ? undefined : tags['ramp:wheelchair'] === 'yes',
+  toiletsWheelchair: tags['toilets:wheelchair'],
+  surface: tags.surface,
+  smoothness: tags.smoothness,
+  incline: parseIncline(tags.incline).percent,
+  kerb: tags.kerb,
+});
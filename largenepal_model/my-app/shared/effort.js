@@ -0,0 +1,180 @@
+// my-app/shared/effort.js
+// Physical effort of a route. Rolling resistance on each surface and the
+// height climbed are turned into mechanical energy: for a manual chair that
+// is the work of pushing, for a powered chair it is drawn from the battery.
+// The backend router uses it to keep routes under an effort limit and the
+// frontend shows it in the route panel, so both get the same numbers.
+
+import { polylineLength } from './geo.js';
+
+/** @typedef {'manual' | 'powered'} ChairType */
+
+/**
+ * @typedef {Object} ChairSettings
+ * @property {ChairType} type
+ * @property {number} batteryWh                    usable battery capacity (powered chairs)
+ * @property {number | null} maxPushKj             effort limit for a manual chair
+ * @property {number | null} maxBatteryPercent     effort limit for a powered chair
+ */
+
+/** @typedef {'light' | 'moderate' | 'hard' | 'very hard'} EffortRating */
+
+/**
+ * @typedef {Object} RouteEffort
+ * @property {number} energyKj                     mechanical energy for the whole route
+ * @property {number} climb                        metres climbed
+ * @property {number | null} batteryWh             powered chairs only
+ * @property {number | null} batteryPercent        powered chairs only
+ * @property {EffortRating} rating
+ * @property {boolean} overLimit                   whether it exceeds the chair's limit
+ */
+
+/** @type {ChairSettings} */
+export const DEFAULT_CHAIR = {
+  type: 'manual',
+  batteryWh: 500,
+  maxPushKj: null,
+  maxBatteryPercent: null,
+};
+
+// Chair plus rider
+const MASS_KG = { manual: 95, powered: 160 };
+const GRAVITY = 9.81;
+// Share of the mechanical energy that reaches the wheels from the battery
+const DRIVE_EFFICIENCY = 0.35;
+// Holding a manual chair back downhill takes work too; motors brake for free
+const BRAKING_SHARE = { manual: 0.15, powered: 0 };
+// Elevation changes smaller than this are treated as DEM noise
+const ELEVATION_NOISE_M = 1;
+// Grades are measured over about one DEM cell, by the router and in the
+// route panel alike
+export const GRADE_WINDOW_M = 30;
+
+// Rolling resistance coefficient of chair wheels and casters on each surface
+const ROLLING_RESISTANCE = {
+  asphalt: 0.012,
+  concrete: 0.012,
+  paved: 0.012,
+  paving_stones: 0.016,
+  'concrete:plates': 0.015,
+  compacted: 0.025,
+  fine_gravel: 0.03,
+  sett: 0.03,
+  cobblestone: 0.04,
+  unpaved: 0.04,
+  gravel: 0.05,
+  ground: 0.045,
+  dirt: 0.05,
+  grass: 0.08,
+  sand: 0.15,
+};
+const UNKNOWN_ROLLING_RESISTANCE = 0.018;
+
+// Push energy (kJ) or share of the battery up to which a trip counts as each
+// rating. A kilometre on flat asphalt is about 11 kJ of pushing.
+export const EFFORT_RATINGS = [
+  { rating: 'light', maxKj: 15, maxBatteryPercent: 10 },
+  { rating: 'moderate', maxKj: 40, maxBatteryPercent: 25 },
+  { rating: 'hard', maxKj: 80, maxBatteryPercent: 50 },
+  { rating: 'very hard', maxKj: Infinity, maxBatteryPercent: Infinity },
+];
+
+const rollingResistance = (surface) =>
+  (surface && ROLLING_RESISTANCE[surface.toLowerCase()]) || UNKNOWN_ROLLING_RESISTANCE;
+
+/**
+ * Metres climbed and descended along an elevation profile, ignoring wiggles
+ * smaller than ELEVATION_NOISE_M.
+ * @param {{ distance: number, elevation: number }[]} profile
+ */
+export const climbAndDescent = (profile) => {
+  let climb = 0;
+  let descent = 0;
+  let reference = profile[0]?.elevation;
+  for (const { elevation } of profile) {
+    const change = elevation - reference;
+    if (Math.abs(change) < ELEVATION_NOISE_M) continue;
+    if (change > 0) climb += change;
+    else descent -= change;
+    reference = elevation;
+  }
+  return { climb, descent };
+};
+
+/**
+ * Cost multiplier of one edge for an effort-minimising search, relative to
+ * the same length of flat asphalt. `incline` is signed in the direction of
+ * travel (%).
+ * @param {{ surface?: string | null, incline?: number | null }} edge
+ * @param {ChairType} type
+ */
+export const edgeEffortFactor = ({ surface, incline }, type) => {
+  const grade = (incline ?? 0) / 100;
+  const work = rollingResistance(surface) + (grade > 0 ? grade : -grade * BRAKING_SHARE[type]);
+  return work / ROLLING_RESISTANCE.asphalt;
+};
+
+/**
+ * Energy a route takes with the given chair. Heights come from the route's
+ * elevation profile when there is one, otherwise from the segments' inclines.
+ * @param {{ segments: { coordinates: [number, number][], distance?: number, surface?: string, incline?: number }[], elevationProfile?: { distance: number, elevation: number }[] }} route
+ * @param {ChairSettings} chair
+ * @returns {RouteEffort}
+ */
+export const routeEffort = (route, chair) => {
+  const lengths = route.segments.map((s) => s.distance ?? polylineLength(s.coordinates));
+  const rolling = route.segments.reduce((sum, s, i) => sum + lengths[i] * rollingResistance(s.surface), 0);
+
+  let heights;
+  if (route.elevationProfile && route.elevationProfile.length >= 2) {
+    heights = climbAndDescent(route.elevationProfile);
+  } else {
+    heights = { climb: 0, descent: 0 };
+    route.segments.forEach((s, i) => {
+      const rise = (lengths[i] * (s.incline ?? 0)) / 100;
+      if (rise > 0) heights.climb += rise;
+      else heights.descent -= rise;
+    });
+  }
+
+  const mass = MASS_KG[chair.type];
+  const energyKj =
+    (mass * GRAVITY * (rolling + heights.climb + heights.descent * BRAKING_SHARE[chair.type])) / 1000;
+  const batteryWh = chair.type === 'powered' ? (energyKj * 1000) / DRIVE_EFFICIENCY / 3600 : null;
+  const batteryPercent = batteryWh === null ? null : (batteryWh / chair.batteryWh) * 100;
+
+  const { rating } = EFFORT_RATINGS.find((r) =>
+    batteryPercent === null ? energyKj <= r.maxKj : batteryPercent <= r.maxBatteryPercent
+  );
+
+  const overLimit =
+    chair.type === 'powered'
+      ? chair.maxBatteryPercent != null && batteryPercent > chair.maxBatteryPercent
+      : chair.maxPushKj != null && energyKj > chair.maxPushKj;
+
+  return {
+    energyKj: Math.round(energyKj * 10) / 10,
+    climb: Math.round(heights.climb),
+    batteryWh: batteryWh === null ? null : Math.round(batteryWh * 10) / 10,
+    batteryPercent: batteryPercent === null ? null : Math.round(batteryPercent * 10) / 10,
+    rating,
+    overLimit,
+  };
+};
+
+/**
+ * Chair settings from untrusted input (e.g. a request body), or null when
+ * there are none.
+ * @param {unknown} value
+ * @returns {ChairSettings | null}
+ */
+export const parseChairSettings = (value) => {
+  if (!value || typeof value !== 'object') return null;
+  const limit = (n) => (n == null || !(Number(n) > 0) ? null : Number(n));
+  return {
+    type: value.type === 'powered' ? 'powered' : 'manual',
+    batteryWh: Number(value.batteryWh) > 0 ? Number(value.batteryWh) : DEFAULT_CHAIR.batteryWh,
+    maxPushKj: limit(value.maxPushKj),
+    maxBatteryPercent: limit(value.maxBatteryPercent),
+  };
+};
@@ -0,0 +1,129 @@
+// my-app/shared/geo.js
+// Small geodesy helpers used by both the backend and the frontend.
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (d) => (d * Math.PI) / 180;
+
+/**
+ * Great-circle distance in metres between two { lat, lng } points.
+ * @param {{ lat: number, lng: number }} a
+ * @param {{ lat: number, lng: number }} b
+ */
+export const haversine = (a, b) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Distance in metres from point `p` to the segment a–b, using a local
+ * equirectangular projection (accurate to well under a metre at city scale).
+ * Also returns `t`, the position of the closest point along a–b (0..1).
+ * @param {{ lat: number, lng: number }} p
+ * @param {{ lat: number, lng: number }} a
+ * @param {{ lat: number, lng: number }} b
+ */
+export const distanceToSegment = (p, a, b) => {
+  const kx = Math.cos(toRad(p.lat)) * toRad(1) * EARTH_RADIUS_M;
+  const ky = toRad(1) * EARTH_RADIUS_M;
+  const ax = (a.lng - p.lng) * kx;
+  const ay = (a.lat - p.lat) * ky;
+  const bx = (b.lng - p.lng) * kx;
+  const by = (b.lat - p.lat) * ky;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2));
+  return { distance: Math.hypot(ax + t * dx, ay + t * dy), t };
+};
+
+/**
+ * Distance in metres from point `p` to a polyline given as [lat, lng] pairs.
+ * @param {{ lat: number, lng: number }} p
+ * @param {[number, number][]} coordinates
+ */
+export const distanceToPolyline = (p, coordinates) => {
+  if (coordinates.length === 1) {
+    return haversine(p, { lat: coordinates[0][0], lng: coordinates[0][1] });
+  }
+  let best = Infinity;
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const a = { lat: coordinates[i][0], lng: coordinates[i][1] };
+    const b = { lat: coordinates[i + 1][0], lng: coordinates[i + 1][1] };
+    best = Math.min(best, distanceToSegment(p, a, b).distance);
+  }
+  return best;
+};
+
+/**
+ * Length in metres of a polyline given as [lat, lng] pairs.
+ * @param {[number, number][]} coordinates
+ */
+export const polylineLength = (coordinates) => {
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    total += haversine(
+      { lat: coordinates[i - 1][0], lng: coordinates[i - 1][1] },
+      { lat: coordinates[i][0], lng: coordinates[i][1] }
+    );
+  }
+  return total;
+};
+
+/**
+ * Closest point to `p` on a polyline given as [lat, lng] pairs, with its
+ * distance from `p` and how far along the polyline it lies (both in metres).
+ * Parts of the polyline that end before `fromDistance` are skipped, so a
+ * position is not snapped back onto an earlier stretch that passes close by.
+ * @param {{ lat: number, lng: number }} p
+ * @param {[number, number][]} coordinates
+ * @param {number} [fromDistance]
+ * @returns {{ lat: number, lng: number, distance: number, along: number }}
+ */
+export const snapToPolyline = (p, coordinates, fromDistance = 0) => {
+  if (coordinates.length === 1) {
+    const [lat, lng] = coordinates[0];
+    return { lat, lng, distance: haversine(p, { lat, lng }), along: 0 };
+  }
+  let best = null;
+  let travelled = 0;
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const a = { lat: coordinates[i][0], lng: coordinates[i][1] };
+    const b = { lat: coordinates[i + 1][0], lng: coordinates[i + 1][1] };
+    const length = haversine(a, b);
+    if (travelled + length >= fromDistance) {
+      const { distance, t } = distanceToSegment(p, a, b);
+      if (!best || distance < best.distance) {
+        best = { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng), distance, along: travelled + t * length };
+      }
+    }
+    travelled += length;
+  }
+  return best ?? snapToPolyline(p, coordinates);
+};
+
+/**
+ * The point `distance` metres along a polyline given as [lat, lng] pairs,
+ * clamped to its ends.
+ * @param {[number, number][]} coordinates
+ * @param {number} distance
+ * @returns {{ lat: number, lng: number }}
+ */
+export const pointAlong = (coordinates, distance) => {
+  let travelled = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = { lat: coordinates[i - 1][0], lng: coordinates[i - 1][1] };
+    const b = { lat: coordinates[i][0], lng: coordinates[i][1] };
+    const length = haversine(a, b);
+    if (travelled + length >= distance && length > 0) {
+      const t = Math.max(0, (distance - travelled) / length);
+      return { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+    }
+    travelled += length;
+  }
+  const [lat, lng] = coordinates[coordinates.length - 1];
+  return { lat, lng };
+};
@@ -0,0 +1,82 @@
+// my-app/shared/mobilityProfiles.js
+// Mobility profiles shared by the backend router and the frontend map.
+
+/**
+ * @typedef {Object} MobilityProfile
+ * @property {'wheelchair' | 'elderly' | 'stroller' | 'mobility'} id
+ * @property {string} label
+ * @property {number} maxInclinePercent   steepest grade the user can manage
+ * @property {number} minWidthCm          narrowest passage the user fits through
+ * @property {number} maxCurbHeightCm     highest curb the user can get over
+ * @property {boolean} allowsSteps        whether steps are usable at all
+ * @property {string[]} surfaceBlacklist  OSM surface values the user cannot use
+ * @property {number} speedMps            average travel speed on level ground
+ */
+
+/** Height assumed for a curb without a curb cut */
+export const RAISED_CURB_HEIGHT_CM = 15;
+
+/** @type {Record<MobilityProfile['id'], MobilityProfile>} */
+export const MOBILITY_PROFILES = {
+  wheelchair: {
+    id: 'wheelchair',
+    label: 'Wheelchair User',
+    maxInclinePercent: 8,
+    minWidthCm: 90,
+    maxCurbHeightCm: 2,
+    allowsSteps: false,
+    surfaceBlacklist: ['sand', 'grass', 'dirt', 'ground', 'gravel', 'mud'],
+    speedMps: 0.7,
+  },
+  elderly: {
+    id: 'elderly',
+    label: 'Elderly / Senior Citizen',
+    maxInclinePercent: 10,
+    minWidthCm: 60,
+    maxCurbHeightCm: 15,
+    allowsSteps: true,
+    surfaceBlacklist: ['sand', 'mud'],
+    speedMps: 0.9,
+  },
+  stroller: {
+    id: 'stroller',
+    label: 'Parent with Stroller',
+    maxInclinePercent: 10,
+    minWidthCm: 70,
+    maxCurbHeightCm: 6,
+    allowsSteps: false,
+    surfaceBlacklist: ['sand', 'mud', 'grass'],
+    speedMps: 1.1,
+  },
+  mobility: {
+    id: 'mobility',
+    label: 'Mobility Assistance',
+    maxInclinePercent: 12,
+    minWidthCm: 60,
+    maxCurbHeightCm: 15,
+    allowsSteps: true,
+    surfaceBlacklist: ['sand', 'mud'],
+    speedMps: 0.8,
+  },
+};
+
+export const DEFAULT_PROFILE_ID = 'wheelchair';
+
+/**
+ * Looks up a profile by id, falling back to the wheelchair profile for
+ * unknown or missing ids.
+ * @param {string | null | undefined} id
+ * @returns {MobilityProfile}
+ */
+export const getMobilityProfile = (id) =>
+  // Own keys only: ids like "toString" must not pick up Object.prototype
+  typeof id === 'string' && Object.hasOwn(MOBILITY_PROFILES, id)
+    ? MOBILITY_PROFILES[id]
+    : MOBILITY_PROFILES[DEFAULT_PROFILE_ID];
+
+/**
+ * Estimated travel time in seconds for a distance in metres.
+ * @param {number} distance
+ * @param {MobilityProfile} profile
+ */
+export const estimateTravelTime = (distance, profile) => distance / profile.speedMps;
@@ -0,0 +1,81 @@
+// my-app/shared/navigation.js
+// Live navigation: where the user is along the active route, what the next
+// maneuver is, and when they have left the route for long enough to reroute.
+
+import { polylineLength, snapToPolyline } from './geo.js';
+
+/**
+ * @typedef {import('./routeInstructions.js').RouteInstruction} RouteInstruction
+ */
+
+// Further than this from the route (or the fix's own accuracy, if worse) is off route
+export const OFF_ROUTE_M = 25;
+// Consecutive off-route fixes before rerouting, so one stray fix does not
+export const OFF_ROUTE_FIXES = 3;
+// Closer than this to the end of the route counts as arrived
+export const ARRIVAL_M = 15;
+// A new fix may snap this far back along the route (GPS jitter, a step back)
+const BACKTRACK_M = 30;
+
+/**
+ * @typedef {Object} NavigationRoute
+ * @property {[number, number][]} coordinates   [lat, lng]
+ * @property {number} totalDistance             metres, as reported by the router
+ * @property {number} estimatedTime             seconds
+ * @property {RouteInstruction[]} [instructions]
+ */
+
+/**
+ * @typedef {Object} NavigationProgress
+ * @property {{ lat: number, lng: number }} snapped   position on the route
+ * @property {number} distanceFromRoute               metres
+ * @property {number} distanceAlong                   metres travelled along the route
+ * @property {number} remainingDistance               metres
+ * @property {number} remainingTime                   seconds
+ * @property {RouteInstruction | null} nextInstruction
+ * @property {number} distanceToNext                  metres to the next maneuver
+ * @property {boolean} offRoute
+ * @property {number} offRouteFixes                   consecutive off-route fixes so far
+ * @property {boolean} shouldReroute
+ * @property {boolean} arrived
+ */
+
+/**
+ * Progress along `route` for a new position fix. Pass the previous progress
+ * for the same route so snapping moves forward and off-route fixes are
+ * counted across calls.
+ * @param {NavigationRoute} route
+ * @param {{ lat: number, lng: number }} position
+ * @param {{ accuracy?: number, previous?: NavigationProgress | null }} [options]
+ * @returns {NavigationProgress}
+ */
+export const trackProgress = (route, position, { accuracy = 0, previous = null } = {}) => {
+  // Instruction and remaining distances use the router's figures; the
+  // polyline length differs from them slightly, so snap positions are scaled
+  const length = polylineLength(route.coordinates) || 1;
+  const scale = route.totalDistance / length;
+
+  const fromDistance = previous ? Math.max(0, previous.distanceAlong / scale - BACKTRACK_M) : 0;
+  const snap = snapToPolyline(position, route.coordinates, fromDistance);
+  const distanceAlong = snap.along * scale;
+  const remainingDistance = Math.max(0, route.totalDistance - distanceAlong);
+
+  const offRoute = snap.distance > Math.max(OFF_ROUTE_M, accuracy);
+  const offRouteFixes = offRoute ? (previous?.offRouteFixes ?? 0) + 1 : 0;
+
+  const nextInstruction = (route.instructions ?? []).find((i) => i.startDistance > distanceAlong) ?? null;
+
+  return {
+    snapped: { lat: snap.lat, lng: snap.lng },
+    distanceFromRoute: snap.distance,
+    distanceAlong,
+    remainingDistance,
+    remainingTime: route.totalDistance > 0 ? (route.estimatedTime * remainingDistance) / route.totalDistance : 0,
+    nextInstruction,
+    distanceToNext: nextInstruction ? nextInstruction.startDistance - distanceAlong : remainingDistance,
+    offRoute,
+    offRouteFixes,
+    shouldReroute: offRouteFixes >= OFF_ROUTE_FIXES,
+    arrived: !offRoute && remainingDistance <= ARRIVAL_M,
+  };
+};
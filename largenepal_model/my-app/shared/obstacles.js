@@ -0,0 +1,100 @@
+// my-app/shared/obstacles.js
+// Active reports and hazard points that routing should steer around.
+// Every router (local graph, ORS, OSRM) turns its inputs into Obstacles,
+// so avoidance and the warnings that name each obstacle work the same way.
+
+import { distanceToPolyline } from './geo.js';
+import {
+  BLOCKING_REPORT_TYPES,
+  HAZARD_REPORT_CONFIDENCE,
+  IGNORE_REPORT_CONFIDENCE,
+} from './segmentClassifier.js';
+
+/**
+ * @typedef {Object} Obstacle
+ * @property {string} key          stable id, e.g. 'report:<uuid>' or 'hazard:<lat>,<lng>'
+ * @property {'report' | 'hazard'} source
+ * @property {number} lat
+ * @property {number} lng
+ * @property {string} label        human-readable name used in warnings
+ * @property {boolean} blocking    true when the way is probably impassable
+ * @property {number} confidence   0–1
+ */
+
+// Obstacles closer than this to a path or route affect it
+export const OBSTACLE_BUFFER_M = 20;
+
+// A blocking obstacle makes an edge this many times more expensive rather
+// than removing it, so a route is still found (with a warning) when there
+// is no way around.
+const BLOCKING_PENALTY = 25;
+// Extra cost of a non-blocking obstacle at full confidence
+const OBSTACLE_PENALTY = 2;
+
+const humanize = (type) => type.replace(/_/g, ' ');
+
+/**
+ * @param {{ id: string, type: string, description?: string, confidence?: number, lat: number, lng: number }} report
+ * @returns {Obstacle | null}  null for reports too doubtful to act on
+ */
+export const obstacleFromReport = (report) => {
+  const confidence = report.confidence ?? HAZARD_REPORT_CONFIDENCE;
+  if (confidence < IGNORE_REPORT_CONFIDENCE) return null;
+  return {
+    key: `report:${report.id}`,
+    source: 'report',
+    lat: report.lat,
+    lng: report.lng,
+    label: `reported ${humanize(report.type)}${report.description ? ` (${report.description})` : ''}`,
+    blocking: BLOCKING_REPORT_TYPES.includes(report.type) && confidence >= HAZARD_REPORT_CONFIDENCE,
+    confidence,
+  };
+};
+
+/**
+ * Only `hazard`-type points are obstacles; `caution` points are left to the
+ * segment classifier.
+ * @param {{ type: string, category: string, description?: string, lat: number, lng: number }} hazard
+ * @returns {Obstacle | null}
+ */
+export const obstacleFromHazard = (hazard) => {
+  if (hazard.type !== 'hazard') return null;
+  return {
+    key: `hazard:${hazard.lat.toFixed(6)},${hazard.lng.toFixed(6)}`,
+    source: 'hazard',
+    lat: hazard.lat,
+    lng: hazard.lng,
+    label: hazard.category.toLowerCase(),
+    blocking: true,
+    confidence: 1,
+  };
+};
+
+/**
+ * Cost multiplier for passing within OBSTACLE_BUFFER_M of an obstacle.
+ * @param {Obstacle} obstacle
+ */
+export const obstaclePenalty = (obstacle) =>
+  obstacle.blocking ? BLOCKING_PENALTY : 1 + OBSTACLE_PENALTY * obstacle.confidence;
+
+/**
+ * Obstacles within `bufferM` of a polyline of [lat, lng] pairs.
+ * @param {Obstacle[]} obstacles
+ * @param {[number, number][]} coordinates
+ * @param {number} [bufferM]
+ */
+export const obstaclesNear = (obstacles, coordinates, bufferM = OBSTACLE_BUFFER_M) =>
+  coordinates.length === 0 ? [] : obstacles.filter((o) => distanceToPolyline(o, coordinates) <= bufferM);
+
+/**
+ * One warning per obstacle: those the route steers around and those it
+ * still passes. Only a blocking obstacle on the route means there was no
+ * way around it; others may just have been cheaper to pass.
+ * @param {Obstacle[]} avoided
+ * @param {Obstacle[]} onRoute
+ * @returns {string[]}
+ */
+export const obstacleWarnings = (avoided, onRoute) => [
+  ...onRoute.map((o) => (o.blocking ? `Route passes ${o.label} – no way around it` : `Route passes ${o.label}`)),
+  ...avoided.map((o) => `Avoided ${o.label}`),
+];
@@ -0,0 +1,275 @@
+// my-app/shared/osmTags.js
+// Interprets the OSM accessibility vocabulary: parses values such as
+// `incline=10%`, `incline=up` or `width=1.2 m` into numbers, and turns a tag
+// set into structured path attributes and hazard points. Used by the OSM
+// importer on the backend and the live Overpass fetch on the frontend, so
+// both read OSM the same way.
+
+/**
+ * @typedef {'yes' | 'no' | 'separate'} SidewalkPresence
+ */
+
+/**
+ * @typedef {Object} Incline
+ * @property {number | null} percent          signed grade along the way; null when only a direction is tagged
+ * @property {'up' | 'down' | null} direction
+ */
+
+/**
+ * Sidewalk tagged on a road with `sidewalk=*` / `sidewalk:<side>=*` and
+ * `sidewalk:<side>:<key>=*` sub-tags.
+ * @typedef {Object} SidewalkAttributes
+ * @property {SidewalkPresence | null} left
+ * @property {SidewalkPresence | null} right
+ * @property {string | null} surface
+ * @property {number | null} widthCm
+ * @property {string | null} kerb
+ */
+
+/**
+ * @typedef {Object} AccessibilityAttributes
+ * @property {string | null} highway
+ * @property {string | null} pathType          sidewalk, footway, crossing, pedestrian, steps or the highway value
+ * @property {string | null} surface
+ * @property {string | null} smoothness
+ * @property {Incline} incline
+ * @property {number | null} widthCm
+ * @property {string | null} kerb              kerb=* (flush, lowered, rolled, raised, ...)
+ * @property {number | null} kerbHeightCm
+ * @property {boolean | null} hasCurbCuts      from `kerb`; null when untagged
+ * @property {string | null} wheelchair        wheelchair=* (yes, limited, no, designated)
+ * @property {boolean | null} hasRamp          ramp:wheelchair=* or ramp=*
+ * @property {boolean | null} tactilePaving
+ * @property {boolean | null} handrail         any of handrail, handrail:left/right/center
+ * @property {number | null} stepCount
+ * @property {boolean | null} isLit
+ * @property {SidewalkAttributes} sidewalk
+ */
+
+/**
+ * A point worth warning about, in the frontend's HazardPoint shape.
+ * @typedef {Object} TagHazard
+ * @property {'hazard' | 'caution'} type
+ * @property {string} category
+ * @property {string} description
+ */
+
+const PASSABLE_KERBS = ['flush', 'lowered', 'no', 'rolled'];
+const RAISED_KERBS = ['raised', 'regular', 'yes'];
+
+const UNUSABLE_SURFACES = ['unpaved', 'gravel', 'dirt', 'ground', 'sand', 'grass', 'mud'];
+const POOR_SMOOTHNESS = ['bad', 'very_bad', 'horrible', 'very_horrible', 'impassable'];
+
+// Hazard thresholds, matching the wheelchair profile
+const STEEP_INCLINE_PERCENT = 8;
+const NOTICEABLE_INCLINE_PERCENT = 5;
+const MIN_WIDTH_CM = 90;
+const COMFORTABLE_WIDTH_CM = 120;
+
+const UNIT_TO_CM = { m: 100, cm: 1, mm: 0.1, ft: 30.48, "'": 30.48, in: 2.54, '"': 2.54 };
+
+const decimal = (text) => parseFloat(text.replace(',', '.'));
+
+const yesNo = (value) => {
+  if (value == null) return null;
+  const v = String(value).toLowerCase();
+  if (v === 'yes' || v === 'designated' || v === 'true') return true;
+  if (v === 'no' || v === 'false') return false;
+  return null;
+};
+
+/**
+ * Parses `incline=*`: "10%", "-4 %", "5°" (converted to percent), "up", "down".
+ * @param {string | number | null | undefined} value
+ * @returns {Incline}
+ */
+export const parseIncline = (value) => {
+  if (value == null || value === '') return { percent: null, direction: null };
+  if (typeof value === 'number') return { percent: value, direction: value >= 0 ? 'up' : 'down' };
+
+  const text = String(value).trim().toLowerCase();
+  if (text === 'up' || text === 'down') return { percent: null, direction: text };
+
+  const match = text.match(/^([+-]?\d+(?:[.,]\d+)?)\s*(%|°|deg)?$/);
+  if (!match) return { percent: null, direction: null };
+
+  const number = decimal(match[1]);
+  const percent = match[2] === '°' || match[2] === 'deg' ? Math.tan((number * Math.PI) / 180) * 100 : number;
+  return { percent, direction: percent >= 0 ? 'up' : 'down' };
+};
+
+/**
+ * Parses a length such as `width=*` or `kerb:height=*` into centimetres:
+ * "1.2", "1,2 m", "90 cm", "4'", "3'6\"", "4 ft". `defaultUnit` applies to
+ * bare numbers; OSM lengths are in metres.
+ * @param {string | number | null | undefined} value
+ * @param {'m' | 'cm'} [defaultUnit]
+ * @returns {number | null}
+ */
+export const parseLengthCm = (value, defaultUnit = 'm') => {
+  if (value == null || value === '') return null;
+  if (typeof value === 'number') return Math.round(value * UNIT_TO_CM[defaultUnit]);
+
+  const text = String(value).trim().toLowerCase();
+
+  const feetInches = text.match(/^(\d+(?:\.\d+)?)'\s*(\d+(?:\.\d+)?)"$/);
+  if (feetInches) return Math.round(Number(feetInches[1]) * UNIT_TO_CM.ft + Number(feetInches[2]) * UNIT_TO_CM.in);
+
+  const match = text.match(/^(\d+(?:[.,]\d+)?)\s*(m|cm|mm|ft|in|'|")?$/);
+  if (!match) return null;
+  return Math.round(decimal(match[1]) * UNIT_TO_CM[match[2] ?? defaultUnit]);
+};
+
+/**
+ * Parses `step_count=*`.
+ * @param {string | number | null | undefined} value
+ * @returns {number | null}
+ */
+export const parseStepCount = (value) => {
+  const n = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+/**
+ * Curb cuts implied by kerb=* values: any raised kerb wins; null when none
+ * is tagged.
+ * @param {(string | null | undefined)[]} kerbs
+ * @returns {boolean | null}
+ */
+export const curbCutsFromKerbs = (kerbs) => {
+  const values = kerbs.filter(Boolean).map((k) => String(k).toLowerCase());
+  if (values.some((k) => RAISED_KERBS.includes(k))) return false;
+  if (values.some((k) => PASSABLE_KERBS.includes(k))) return true;
+  return null;
+};
+
+const sidewalkSides = (tags) => {
+  const presence = (value) => (value === 'yes' || value === 'no' || value === 'separate' ? value : null);
+  const sides = { left: presence(tags['sidewalk:left']), right: presence(tags['sidewalk:right']) };
+  const both = tags['sidewalk:both'] ?? tags.sidewalk;
+
+  if (both === 'both' || both === 'yes') return { left: sides.left ?? 'yes', right: sides.right ?? 'yes' };
+  if (both === 'separate') return { left: sides.left ?? 'separate', right: sides.right ?? 'separate' };
+  if (both === 'no' || both === 'none') return { left: sides.left ?? 'no', right: sides.right ?? 'no' };
+  if (both === 'left') return { left: 'yes', right: sides.right ?? 'no' };
+  if (both === 'right') return { left: sides.left ?? 'no', right: 'yes' };
+  return sides;
+};
+
+// sidewalk:both:<key>, then sidewalk:<key>, then either side
+const sidewalkValue = (tags, key) =>
+  tags[`sidewalk:both:${key}`] ?? tags[`sidewalk:${key}`] ?? tags[`sidewalk:left:${key}`] ?? tags[`sidewalk:right:${key}`] ?? null;
+
+/**
+ * The kind of walking surface a way represents.
+ * @param {Record<string, string>} tags
+ * @returns {string | null}
+ */
+export const pathTypeFromTags = (tags) => {
+  if (tags.highway === 'steps') return 'steps';
+  if (tags.footway === 'sidewalk') return 'sidewalk';
+  if (tags.footway === 'crossing' || tags.highway === 'crossing') return 'crossing';
+  if (tags.highway === 'pedestrian') return 'pedestrian';
+  if (tags.highway === 'footway' || tags.highway === 'path') return 'footway';
+  const { left, right } = sidewalkSides(tags);
+  if (left === 'yes' || right === 'yes') return 'sidewalk';
+  return tags.highway ?? null;
+};
+
+/**
+ * Reads every accessibility-relevant tag of a node or way.
+ * @param {Record<string, string | undefined>} tags
+ * @returns {AccessibilityAttributes}
+ */
+export const interpretTags = (tags) => {
+  const sides = sidewalkSides(tags);
+  const handrails = ['handrail', 'handrail:left', 'handrail:right', 'handrail:center'].map((k) => yesNo(tags[k]));
+  const kerb = tags.kerb?.toLowerCase() ?? null;
+
+  return {
+    highway: tags.highway ?? null,
+    pathType: pathTypeFromTags(tags),
+    surface: tags.surface?.toLowerCase() ?? null,
+    smoothness: tags.smoothness?.toLowerCase() ?? null,
+    incline: parseIncline(tags.incline),
+    widthCm: parseLengthCm(tags.width ?? tags.est_width),
+    kerb,
+    kerbHeightCm: parseLengthCm(tags['kerb:height']),
+    hasCurbCuts: curbCutsFromKerbs([kerb]),
+    wheelchair: tags.wheelchair?.toLowerCase() ?? null,
+    hasRamp: yesNo(tags['ramp:wheelchair'] ?? tags.ramp),
+    tactilePaving: yesNo(tags.tactile_paving),
+    handrail: handrails.includes(true) ? true : handrails.includes(false) ? false : null,
+    stepCount: parseStepCount(tags.step_count),
+    isLit: yesNo(tags.lit),
+    sidewalk: {
+      ...sides,
+      surface: sidewalkValue(tags, 'surface')?.toLowerCase() ?? null,
+      widthCm: parseLengthCm(sidewalkValue(tags, 'width')),
+      kerb: sidewalkValue(tags, 'kerb')?.toLowerCase() ?? null,
+    },
+  };
+};
+
+const describeSteps = (attrs) => {
+  const details = [
+    attrs.stepCount !== null ? `${attrs.stepCount} steps` : null,
+    attrs.handrail === true ? 'handrail' : attrs.handrail === false ? 'no handrail' : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `Stairs (${details.join(', ')})` : 'Stairs';
+};
+
+/**
+ * The most serious hazard a node or way presents, or null when there is
+ * nothing to warn about.
+ * @param {Record<string, string | undefined>} tags
+ * @returns {TagHazard | null}
+ */
+export const hazardFromTags = (tags) => {
+  const attrs = interpretTags(tags);
+  const incline = attrs.incline.percent === null ? null : Math.abs(attrs.incline.percent);
+
+  if (attrs.highway === 'steps') {
+    return attrs.hasRamp
+      ? { type: 'caution', category: 'Stairs with Ramp', description: `${describeSteps(attrs)} with a wheelchair ramp` }
+      : { type: 'hazard', category: 'Stairs', description: `${describeSteps(attrs)} — not wheelchair accessible` };
+  }
+  if (attrs.highway === 'construction' || (tags.construction && attrs.highway)) {
+    return { type: 'hazard', category: 'Construction', description: 'Road under construction' };
+  }
+  if (attrs.highway && attrs.wheelchair === 'no') {
+    return { type: 'hazard', category: 'Not Accessible', description: 'Mapped as not wheelchair accessible' };
+  }
+  if (attrs.hasCurbCuts === false) {
+    const height = attrs.kerbHeightCm !== null ? ` (${attrs.kerbHeightCm} cm)` : '';
+    return { type: 'hazard', category: 'Raised Kerb', description: `Kerb without a curb cut${height}` };
+  }
+  if (incline !== null && incline > STEEP_INCLINE_PERCENT) {
+    return { type: 'hazard', category: 'Steep Incline', description: `${incline.toFixed(1)}% incline` };
+  }
+  if (attrs.widthCm !== null && attrs.widthCm < MIN_WIDTH_CM) {
+    return { type: 'hazard', category: 'Too Narrow', description: `Only ${attrs.widthCm} cm wide` };
+  }
+  if (attrs.surface && UNUSABLE_SURFACES.includes(attrs.surface)) {
+    return { type: 'hazard', category: 'Unpaved', description: `Surface: ${attrs.surface}` };
+  }
+  if (attrs.smoothness && POOR_SMOOTHNESS.includes(attrs.smoothness)) {
+    return { type: 'hazard', category: 'Poor Surface', description: `Smoothness: ${attrs.smoothness}` };
+  }
+  if (incline !== null && incline > NOTICEABLE_INCLINE_PERCENT) {
+    return { type: 'caution', category: 'Incline', description: `${incline.toFixed(1)}% incline` };
+  }
+  if (incline === null && attrs.incline.direction) {
+    return { type: 'caution', category: 'Slope', description: 'Slope of unknown steepness' };
+  }
+  if (attrs.widthCm !== null && attrs.widthCm < COMFORTABLE_WIDTH_CM) {
+    return { type: 'caution', category: 'Narrow', description: `${attrs.widthCm} cm wide` };
+  }
+  if (attrs.highway === 'living_street') {
+    return { type: 'caution', category: 'Narrow Alley', description: 'Narrow living street — limited wheelchair access' };
+  }
+  if (attrs.highway === 'service' && attrs.widthCm !== null) {
+    return { type: 'caution', category: 'Service Road', description: 'Service road — may be narrow' };
+  }
+  return null;
+};
@@ -0,0 +1,230 @@
+// my-app/shared/routeInstructions.js
+// Turn-by-turn instructions. The backend builds them from the local path
+// graph; the frontend maps ORS/OSRM steps onto the same shape. Either way,
+// accessibility notes ("6% uphill for 40 m", "curb cut at crossing") come
+// from the classified route segments, so every provider words them the same.
+
+import { polylineLength } from './geo.js';
+
+/**
+ * @typedef {'depart' | 'straight' | 'slight-left' | 'slight-right' | 'left' | 'right'
+ *   | 'sharp-left' | 'sharp-right' | 'u-turn' | 'roundabout' | 'arrive'} Maneuver
+ */
+
+/**
+ * @typedef {Object} RouteInstruction
+ * @property {Maneuver} maneuver
+ * @property {string} text                 e.g. "Turn left onto Durbar Marg"
+ * @property {number} distance             metres until the next instruction
+ * @property {number} startDistance        metres from the start of the route
+ * @property {string | null} streetName
+ * @property {[number, number]} location   [lat, lng] where the maneuver happens
+ * @property {string[]} notes              accessibility notes for this stretch
+ */
+
+/**
+ * One edge of a route with the attributes the instruction builder reads.
+ * @typedef {Object} InstructionEdge
+ * @property {[number, number]} from       [lat, lng]
+ * @property {[number, number]} to         [lat, lng]
+ * @property {number} length               metres
+ * @property {string | null} [name]
+ * @property {string | null} [pathType]
+ */
+
+// Bearing changes (degrees) below each limit get that maneuver
+const MANEUVER_ANGLES = [
+  [20, 'straight'],
+  [60, 'slight'],
+  [135, 'turn'],
+  [170, 'sharp'],
+];
+// Turns after a shorter stretch than this are folded into the next step
+const MIN_STEP_M = 8;
+
+const STEEP_NOTE_PERCENT = 5;
+const NARROW_NOTE_CM = 120;
+const SMOOTH_SURFACES = ['asphalt', 'concrete', 'paved', 'paving_stones', 'concrete:plates'];
+
+const toRad = (d) => (d * Math.PI) / 180;
+
+const bearing = ([lat1, lng1], [lat2, lng2]) => {
+  const y = Math.sin(toRad(lng2 - lng1)) * Math.cos(toRad(lat2));
+  const x =
+    Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(toRad(lng2 - lng1));
+  return (Math.atan2(y, x) * 180) / Math.PI;
+};
+
+// Signed change of direction, -180..180; positive turns right
+const turnAngle = (before, after) => ((after - before + 540) % 360) - 180;
+
+/**
+ * @param {number} angle  signed bearing change
+ * @returns {Maneuver}
+ */
+export const maneuverForAngle = (angle) => {
+  const size = Math.abs(angle);
+  const side = angle < 0 ? 'left' : 'right';
+  const [, kind] = MANEUVER_ANGLES.find(([limit]) => size < limit) ?? [180, 'u-turn'];
+  if (kind === 'straight' || kind === 'u-turn') return kind;
+  if (kind === 'turn') return side;
+  return `${kind}-${side}`;
+};
+
+const MANEUVER_VERBS = {
+  depart: 'Head off',
+  straight: 'Continue',
+  'slight-left': 'Bear left',
+  'slight-right': 'Bear right',
+  left: 'Turn left',
+  right: 'Turn right',
+  'sharp-left': 'Turn sharp left',
+  'sharp-right': 'Turn sharp right',
+  'u-turn': 'Turn around',
+  roundabout: 'Go through the roundabout',
+  arrive: 'Arrive at your destination',
+};
+
+const PATH_TYPE_NAMES = {
+  sidewalk: 'the sidewalk',
+  footway: 'the footpath',
+  crossing: 'the crossing',
+  pedestrian: 'the pedestrian street',
+  steps: 'the steps',
+};
+
+/**
+ * Instruction text for a maneuver onto a named (or typed) way.
+ * @param {Maneuver} maneuver
+ * @param {string | null} [streetName]
+ * @param {string | null} [pathType]
+ */
+export const describeManeuver = (maneuver, streetName, pathType) => {
+  const verb = MANEUVER_VERBS[maneuver];
+  if (maneuver === 'arrive') return verb;
+  const way = streetName || PATH_TYPE_NAMES[pathType] || null;
+  if (!way) return verb;
+  return `${verb} ${maneuver === 'straight' || maneuver === 'depart' ? 'on' : 'onto'} ${way}`;
+};
+
+/**
+ * Builds instructions from the edges of a route. A new instruction starts
+ * wherever the route turns or moves onto a differently named or typed way.
+ * @param {InstructionEdge[]} edges
+ * @returns {RouteInstruction[]}
+ */
+export const buildInstructions = (edges) => {
+  if (edges.length === 0) return [];
+
+  const instructions = [];
+  let travelled = 0;
+  let currentPathType = null;
+
+  const start = (maneuver, edge) => {
+    currentPathType = edge.pathType ?? null;
+    instructions.push({
+      maneuver,
+      text: describeManeuver(maneuver, edge.name, edge.pathType),
+      distance: 0,
+      startDistance: travelled,
+      streetName: edge.name ?? null,
+      location: edge.from,
+      notes: [],
+    });
+  };
+
+  edges.forEach((edge, i) => {
+    const previous = edges[i - 1];
+    if (!previous) {
+      start('depart', edge);
+    } else {
+      const current = instructions[instructions.length - 1];
+      const maneuver = maneuverForAngle(turnAngle(bearing(previous.from, previous.to), bearing(edge.from, edge.to)));
+      const changedWay = (edge.name ?? null) !== current.streetName || (edge.pathType ?? null) !== currentPathType;
+      if ((maneuver !== 'straight' && current.distance >= MIN_STEP_M) || changedWay) start(maneuver, edge);
+    }
+    instructions[instructions.length - 1].distance += edge.length;
+    travelled += edge.length;
+  });
+
+  const last = edges[edges.length - 1];
+  instructions.push({
+    maneuver: 'arrive',
+    text: describeManeuver('arrive'),
+    distance: 0,
+    startDistance: travelled,
+    streetName: null,
+    location: last.to,
+    notes: [],
+  });
+
+  return instructions;
+};
+
+/**
+ * Accessibility notes for one stretch of route, from the parts of the
+ * classified segments it covers.
+ * @param {{ length: number, incline?: number, surface?: string, hasCurbCuts?: boolean, width?: number, pathType?: string | null }[]} parts
+ * @returns {string[]}
+ */
+export const accessibilityNotes = (parts) => {
+  const notes = [];
+  const metres = (n) => `${Math.max(1, Math.round(n))} m`;
+
+  for (const direction of ['uphill', 'downhill']) {
+    const steep = parts.filter(
+      (p) => p.incline !== undefined && Math.abs(p.incline) >= STEEP_NOTE_PERCENT && (p.incline > 0) === (direction === 'uphill')
+    );
+    if (steep.length > 0) {
+      const max = Math.max(...steep.map((p) => Math.abs(p.incline)));
+      const length = steep.reduce((sum, p) => sum + p.length, 0);
+      notes.push(`${Math.round(max)}% ${direction} for ${metres(length)}`);
+    }
+  }
+
+  if (parts.some((p) => p.pathType === 'steps')) notes.push('Steps');
+
+  if (parts.some((p) => p.hasCurbCuts === false)) notes.push('Raised curb – no curb cut');
+  else if (parts.some((p) => p.hasCurbCuts === true && p.pathType === 'crossing')) notes.push('Curb cut at crossing');
+
+  const rough = new Map();
+  for (const p of parts) {
+    const surface = p.surface?.toLowerCase();
+    if (surface && surface !== 'unknown' && !SMOOTH_SURFACES.includes(surface)) {
+      rough.set(surface, (rough.get(surface) ?? 0) + p.length);
+    }
+  }
+  for (const [surface, length] of rough) notes.push(`${surface.replace(/_/g, ' ')} surface for ${metres(length)}`);
+
+  const narrowest = Math.min(...parts.map((p) => p.width ?? Infinity));
+  if (narrowest < NARROW_NOTE_CM) notes.push(`Narrow: ${Math.round(narrowest)} cm`);
+
+  return notes;
+};
+
+/**
+ * Fills in each instruction's notes from the route's classified segments
+ * (coordinates as [lat, lng]).
+ * @param {RouteInstruction[]} instructions
+ * @param {{ coordinates: [number, number][], incline?: number, surface?: string, hasCurbCuts?: boolean, width?: number, pathType?: string | null }[]} segments
+ * @returns {RouteInstruction[]}
+ */
+export const annotateInstructions = (instructions, segments) => {
+  let offset = 0;
+  const spans = segments.map((segment) => {
+    const length = polylineLength(segment.coordinates);
+    const span = { segment, start: offset, end: offset + length };
+    offset += length;
+    return span;
+  });
+
+  return instructions.map((instruction) => {
+    const from = instruction.startDistance;
+    const to = from + instruction.distance;
+    const parts = spans
+      .map(({ segment, start, end }) => ({ ...segment, length: Math.min(end, to) - Math.max(start, from) }))
+      .filter((part) => part.length > 0);
+    return { ...instruction, notes: accessibilityNotes(parts) };
+  });
+};
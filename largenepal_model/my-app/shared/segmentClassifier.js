@@ -0,0 +1,181 @@
+// my-app/shared/segmentClassifier.js
+// Deterministic safe/caution/hazard rating for a stretch of route, built from
+// whatever evidence is available for it. Used by the backend router and the
+// frontend so that both rate a segment the same way.
+
+import { RAISED_CURB_HEIGHT_CM } from './mobilityProfiles.js';
+import { scoreAccessibility, scoreInputFromTags } from './accessibilityScore.js';
+import { curbCutsFromKerbs, parseIncline, parseLengthCm } from './osmTags.js';
+
+/**
+ * @typedef {import('./mobilityProfiles.js').MobilityProfile} MobilityProfile
+ * @typedef {import('./accessibilityScore.js').AccessibilityScore} AccessibilityScore
+ */
+
+/**
+ * Attributes of the `paths` row matched to a segment.
+ * @typedef {Object} PathEvidence
+ * @property {string} [id]
+ * @property {string | null} [surface]
+ * @property {number | null} [incline]
+ * @property {number | null} [widthCm]
+ * @property {boolean | null} [hasCurbCuts]
+ * @property {string | null} [pathType]
+ */
+
+/**
+ * @typedef {Object} SegmentEvidence
+ * @property {PathEvidence | null} [path]                 matched `paths` row
+ * @property {Record<string, string>} [tags]              OSM tags (surface, smoothness, incline, highway, width, kerb)
+ * @property {number | null} [demIncline]                 steepest grade from the elevation model (%)
+ * @property {{ type: 'hazard' | 'caution', category: string, description?: string }[]} [hazards]
+ * @property {{ id?: string, type: string, description?: string, confidence?: number }[]} [reports]   active user reports
+ */
+
+/**
+ * @typedef {Object} ClassificationReason
+ * @property {string} code                        machine-readable reason, e.g. 'incline_too_steep'
+ * @property {'hazard' | 'caution' | 'info'} severity
+ * @property {string} message                     human-readable explanation
+ * @property {number} [value]                     measured value the reason is based on
+ */
+
+/**
+ * @typedef {Object} SegmentClassification
+ * @property {'safe' | 'caution' | 'hazard'} accessibility
+ * @property {ClassificationReason[]} reasons
+ * @property {string | undefined} surface
+ * @property {number | undefined} incline
+ * @property {number | undefined} width
+ * @property {boolean | undefined} hasCurbCuts
+ * @property {AccessibilityScore} score           profile-independent 0–10 score with its breakdown
+ */
+
+const ROUGH_SURFACES = ['cobblestone', 'sett', 'unhewn_cobblestone', 'unpaved', 'compacted', 'fine_gravel', 'gravel', 'pebblestone'];
+const POOR_SMOOTHNESS = ['bad'];
+const VERY_POOR_SMOOTHNESS = ['very_bad', 'horrible', 'very_horrible', 'impassable'];
+export const BLOCKING_REPORT_TYPES = ['blocked_sidewalk', 'broken_ramp', 'construction'];
+
+// Reports below IGNORE_CONFIDENCE are left out; a blocking report needs
+// HAZARD_CONFIDENCE before it rates a segment 'hazard' rather than 'caution'.
+export const IGNORE_REPORT_CONFIDENCE = 0.25;
+export const HAZARD_REPORT_CONFIDENCE = 0.5;
+
+const parseNumber = (value) => {
+  if (value == null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Rates a segment for a mobility profile. Path data wins over OSM tags when
+ * both are present. A segment with no surface, incline or width data at all
+ * is rated 'caution' with an 'unverified' reason rather than assumed safe.
+ * @param {SegmentEvidence} evidence
+ * @param {MobilityProfile} profile
+ * @returns {SegmentClassification}
+ */
+export const classifySegment = (evidence, profile) => {
+  const path = evidence.path ?? null;
+  const tags = evidence.tags ?? {};
+  const reasons = [];
+  const add = (code, severity, message, value) =>
+    reasons.push(value === undefined ? { code, severity, message } : { code, severity, message, value });
+
+  const surface = (path?.surface ?? tags.surface ?? undefined)?.toLowerCase();
+  // A mapped incline is measured on the spot; the elevation model only fills gaps
+  const inclineValue =
+    parseNumber(path?.incline) ?? parseIncline(tags.incline).percent ?? parseNumber(evidence.demIncline) ?? undefined;
+  const incline = inclineValue === undefined ? undefined : Math.abs(inclineValue);
+  const width = parseNumber(path?.widthCm) ?? parseLengthCm(tags.width) ?? undefined;
+  const hasCurbCuts = path?.hasCurbCuts ?? curbCutsFromKerbs([tags.kerb]) ?? undefined;
+  const isSteps = path?.pathType === 'steps' || tags.highway === 'steps';
+
+  if (incline !== undefined) {
+    if (incline > profile.maxInclinePercent) {
+      add('incline_too_steep', 'hazard', `${incline.toFixed(1)}% incline exceeds ${profile.maxInclinePercent}% limit`, incline);
+    } else if (incline > profile.maxInclinePercent * 0.75) {
+      add('incline_steep', 'caution', `${incline.toFixed(1)}% incline`, incline);
+    }
+  }
+
+  if (width !== undefined) {
+    if (width < profile.minWidthCm) {
+      add('too_narrow', 'hazard', `${Math.round(width)} cm wide, needs ${profile.minWidthCm} cm`, width);
+    } else if (width < profile.minWidthCm * 1.33) {
+      add('narrow', 'caution', `Narrow passage (${Math.round(width)} cm)`, width);
+    }
+  }
+
+  if (surface) {
+    if (profile.surfaceBlacklist.includes(surface)) {
+      add('surface_unusable', 'hazard', `Surface: ${surface}`);
+    } else if (ROUGH_SURFACES.includes(surface)) {
+      add('surface_rough', 'caution', `Rough surface: ${surface}`);
+    }
+  }
+
+  if (VERY_POOR_SMOOTHNESS.includes(tags.smoothness)) {
+    add('smoothness_very_poor', 'hazard', `Smoothness: ${tags.smoothness}`);
+  } else if (POOR_SMOOTHNESS.includes(tags.smoothness)) {
+    add('smoothness_poor', 'caution', `Smoothness: ${tags.smoothness}`);
+  }
+
+  if (hasCurbCuts === false) {
+    const blocks = profile.maxCurbHeightCm < RAISED_CURB_HEIGHT_CM;
+    add('no_curb_cuts', blocks ? 'hazard' : 'caution', 'Raised curb without curb cut');
+  }
+
+  if (isSteps) {
+    add('steps', profile.allowsSteps ? 'caution' : 'hazard', 'Steps on this section');
+  }
+
+  for (const hazard of evidence.hazards ?? []) {
+    add(
+      hazard.type === 'hazard' ? 'hazard_nearby' : 'caution_nearby',
+      hazard.type,
+      hazard.description ? `${hazard.category}: ${hazard.description}` : hazard.category
+    );
+  }
+
+  for (const report of evidence.reports ?? []) {
+    const confidence = report.confidence ?? HAZARD_REPORT_CONFIDENCE;
+    if (confidence < IGNORE_REPORT_CONFIDENCE) continue;
+    add(
+      'active_report',
+      BLOCKING_REPORT_TYPES.includes(report.type) && confidence >= HAZARD_REPORT_CONFIDENCE ? 'hazard' : 'caution',
+      `Reported ${report.type.replace(/_/g, ' ')}${report.description ? `: ${report.description}` : ''}`,
+      confidence
+    );
+  }
+
+  if (surface === undefined && incline === undefined && width === undefined && !path) {
+    add('unverified', 'caution', 'No accessibility data for this section');
+  } else if (reasons.length === 0) {
+    add('verified', 'info', path ? 'Mapped accessible path' : 'No known barriers');
+  }
+
+  let accessibility = 'safe';
+  if (reasons.some((r) => r.severity === 'hazard')) accessibility = 'hazard';
+  else if (reasons.some((r) => r.severity === 'caution')) accessibility = 'caution';
+
+  return {
+    accessibility,
+    reasons,
+    surface,
+    incline: inclineValue,
+    width,
+    hasCurbCuts,
+    score: scoreAccessibility({ ...scoreInputFromTags(tags), surface, incline, hasCurbCuts }),
+  };
+};
+
+/**
+ * One-line description of a classification for popups and lists.
+ * @param {ClassificationReason[]} reasons
+ */
+export const describeReasons = (reasons) =>
+  reasons
+    .filter((r) => r.severity !== 'info')
+    .map((r) => r.message)
+    .join('; ') || reasons[0]?.message || '';